@@ -1,8 +1,2144 @@
+/** Multiplier spreading sequential integers across the 32 bit range (2^32 / phi). */
+const HASH_MULTIPLIER = 0x9e3779b9;
+
+/** Scrambles the bits of a 32 bit integer, so that similar inputs give unrelated hashes. */
+function mixHash(value: number): number {
+  let hash = Math.imul(value, HASH_MULTIPLIER);
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash;
+}
+
+/**
+ * An iterable of elements, used as a key or set of elements. Strings are iterables of their
+ *  characters, but are not accepted, as a string key is almost always a mistake.
+ */
+export type SetKey<KT> = Iterable<KT> & { readonly charAt?: never };
+
+/** Throws if a key or set of elements is a string, which would otherwise be the set of its characters. */
+function assertNotString(key: Iterable<unknown>): void {
+  if (typeof key === "string") {
+    throw new TypeError(
+      "SetKeyedMap keys and sets of elements must be iterables of elements, not strings",
+    );
+  }
+}
+
+/** Views any iterable as a set, copying it only when it is not already a Set. */
+function toSet<T>(elements: Iterable<T>): ReadonlySet<T> {
+  return elements instanceof Set ? elements : new Set(elements);
+}
+
+/** Returns true if the value can be held weakly. */
+function isWeakable(value: unknown): value is object {
+  return (
+    (typeof value === "object" && value !== null) || typeof value === "function"
+  );
+}
+
+/** An object element of a canonical key in weak mode, which does not keep it alive. */
+class WeakElement {
+  readonly ref: WeakRef<object>;
+  /** The subkey of the element, which must outlive it to remove the key from the index. */
+  readonly subkey: unknown;
+
+  constructor(element: object, subkey: unknown) {
+    this.ref = new WeakRef(element);
+    this.subkey = subkey;
+  }
+}
+
+/** A read-only view of a set, which cannot be used to modify it. */
+class ReadonlySetView<T> implements ReadonlySet<T> {
+  readonly #set: ReadonlySet<T>;
+
+  constructor(set: ReadonlySet<T>) {
+    this.#set = set;
+    Object.freeze(this);
+  }
+
+  get size() {
+    return this.#set.size;
+  }
+
+  has(value: T): boolean {
+    return this.#set.has(value);
+  }
+
+  forEach(
+    callbackfn: (value: T, value2: T, set: ReadonlySet<T>) => void,
+    thisArg?: any,
+  ): void {
+    for (const value of this.#set) {
+      callbackfn.call(thisArg, value, value, this);
+    }
+  }
+
+  keys(): SetIterator<T> {
+    return this.#set.keys();
+  }
+
+  values(): SetIterator<T> {
+    return this.#set.values();
+  }
+
+  entries(): SetIterator<[T, T]> {
+    return this.#set.entries();
+  }
+
+  [Symbol.iterator](): SetIterator<T> {
+    return this.#set[Symbol.iterator]();
+  }
+
+  get [Symbol.toStringTag]() {
+    return "ReadonlySetView";
+  }
+}
+
+/** Why an entry was evicted from a SetKeyedMap. */
+export type EvictionReason = "capacity" | "expired" | "collected";
+
+/** Options for a SetKeyedMap. */
+export interface SetKeyedMapOptions<
+  KT,
+  V = unknown,
+  K extends Set<KT> = Set<KT>,
+> {
+  /**
+   * Maps each element to the value that identifies it, such as an id for objects that
+   *  arrive as fresh instances. Elements with the same identity are treated as equal.
+   *
+   * Identities are compared as Map keys are. By default elements are their own identity.
+   */
+  elementKey?: (element: KT) => unknown;
+  /**
+   * Orders elements, as for Array.prototype.sort. When given, the elements of every key
+   *  are kept in this order, so keys are iterated and serialized the same way no matter
+   *  which order their elements were inserted in.
+   */
+  compareElements?: (a: KT, b: KT) => number;
+  /**
+   * The most entries the map may hold. When a new entry would exceed it, the least
+   *  recently used entries are evicted. get, has and set count as uses.
+   */
+  maxSize?: number;
+  /** Milliseconds after an entry is set that it expires and is evicted. */
+  ttl?: number;
+  /**
+   * Holds object elements weakly. Once any object element of a key is garbage collected,
+   *  its entry is evicted, soon after. The evicted key lacks the collected elements.
+   */
+  weak?: boolean;
+  /** Called with each evicted entry. Entries that are deleted or cleared are not evicted. */
+  onEvict?(key: K, value: V, reason: EvictionReason): void;
+}
+
+/** A change to a SetKeyedMap. Keys are copies, so listeners may keep them. */
+export type SetKeyedMapEvent<K, V> =
+  | { type: "set"; key: K; value: V }
+  | { type: "update"; key: K; oldValue: V; value: V }
+  | { type: "delete"; key: K; oldValue: V; reason?: EvictionReason }
+  | { type: "clear"; entries: [K, V][] };
+
+/** Receives the changes to a SetKeyedMap, in the order they were made. */
+export type SetKeyedMapListener<K, V> = (
+  events: readonly SetKeyedMapEvent<K, V>[],
+) => void;
+
+/** Orders element arrays, each already sorted, element by element and then by length. */
+function compareSortedElements<KT>(
+  a: readonly KT[],
+  b: readonly KT[],
+  compareElements: (a: KT, b: KT) => number,
+): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    const order = compareElements(a[i], b[i]);
+    if (order) {
+      return order;
+    }
+  }
+  return a.length - b.length;
+}
+
+/**
+ * How similar a key is to a set:
+ * - jaccard: shared elements over the elements of either
+ * - overlap: shared elements over the elements of the smaller
+ * - containment: shared elements over the elements of the set
+ */
+export type SimilarityMetric = "jaccard" | "overlap" | "containment";
+
+/** Options for finding the keys nearest a set. */
+export interface NearestOptions {
+  /** How many entries to return, at most. Defaults to 1. */
+  k?: number;
+  /** How similarity is scored. Defaults to jaccard. */
+  metric?: SimilarityMetric;
+}
+
+/** Conditions on keys, for querying a SetKeyedMap. Keys must meet every condition given. */
+export interface SetKeyedMapQuery<KT> {
+  /** Elements the key must contain all of. */
+  all?: SetKey<KT>;
+  /** Elements the key must contain at least one of. No key matches if this is empty. */
+  any?: SetKey<KT>;
+  /** Elements the key must contain none of. */
+  none?: SetKey<KT>;
+  /** The fewest elements the key may have. */
+  minSize?: number;
+  /** The most elements the key may have. */
+  maxSize?: number;
+}
+
+/** The metrics nearest can score by, to check options before any key is scored. */
+const SIMILARITY_METRICS: ReadonlySet<string> = new Set<SimilarityMetric>([
+  "jaccard",
+  "overlap",
+  "containment",
+]);
+
+/** Scores the similarity of a key to a set from their sizes and how many elements they share. */
+function scoreSimilarity(
+  metric: SimilarityMetric,
+  shared: number,
+  setSize: number,
+  keySize: number,
+): number {
+  switch (metric) {
+    case "jaccard":
+      return shared / (setSize + keySize - shared);
+    case "overlap":
+      return shared / Math.min(setSize, keySize);
+    case "containment":
+      return shared / setSize;
+    default:
+      throw new TypeError(`Unknown similarity metric: ${metric}`);
+  }
+}
+
+/** The JSON form of a SetKeyedMap: the elements of each key, paired with its value. */
+export type SetKeyedMapJSON<KT, V> = [KT[], V][];
+
+/**
+ * The changes from one SetKeyedMap to another, as plain data that can be sent as JSON.
+ *  Keys are given by their elements.
+ */
+export interface SetKeyedMapPatch<KT, V> {
+  /** Entries whose key is only in the second map. */
+  added: [KT[], V][];
+  /** Keys only in the first map. */
+  removed: KT[][];
+  /** Entries whose key is in both maps, with the second map's value. */
+  changed: [KT[], V][];
+}
+
+/** Options for reviving a SetKeyedMap from JSON. */
+export interface SetKeyedMapJSONOptions<KT, V>
+  extends SetKeyedMapOptions<KT, V> {
+  /** Converts each parsed element back to an element, such as a date string to a Date. */
+  reviveElement?: (element: unknown) => KT;
+  /** Converts each parsed value back to a value. */
+  reviveValue?: (value: unknown) => V;
+}
+
+/** Converts values of one type to and from bytes, for binary snapshots. */
+export interface SnapshotCodec<T> {
+  encode(value: T): Uint8Array;
+  decode(bytes: Uint8Array): T;
+}
+
+/** The codecs used to write or read a SetKeyedMap snapshot. */
+export interface SetKeyedMapSnapshotCodecs<KT, V> {
+  element: SnapshotCodec<KT>;
+  value: SnapshotCodec<V>;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/** Codecs for common element and value types. */
+export const snapshotCodecs = {
+  /** Strings, as UTF-8. */
+  string: {
+    encode: (value: string) => textEncoder.encode(value),
+    decode: (bytes: Uint8Array) => textDecoder.decode(bytes),
+  } satisfies SnapshotCodec<string>,
+  /** Numbers, as 64 bit floats. */
+  number: {
+    encode: (value: number) => {
+      const bytes = new Uint8Array(8);
+      new DataView(bytes.buffer).setFloat64(0, value);
+      return bytes;
+    },
+    decode: (bytes: Uint8Array) =>
+      new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getFloat64(
+        0,
+      ),
+  } satisfies SnapshotCodec<number>,
+  /** Anything JSON can represent, as UTF-8 JSON, and undefined, as no bytes. */
+  json: {
+    encode: (value: unknown) =>
+      // JSON has no undefined, and no JSON text is empty
+      textEncoder.encode(JSON.stringify(value) ?? ""),
+    decode: (bytes: Uint8Array) =>
+      bytes.length ? JSON.parse(textDecoder.decode(bytes)) : undefined,
+  } satisfies SnapshotCodec<unknown>,
+};
+
+/** The codecs used when none are given, which handle anything JSON can represent. */
+const defaultSnapshotCodecs: SetKeyedMapSnapshotCodecs<unknown, unknown> = {
+  element: snapshotCodecs.json,
+  value: snapshotCodecs.json,
+};
+
+/** Identifies a SetKeyedMap snapshot: "SKM". */
+const SNAPSHOT_MAGIC = [0x53, 0x4b, 0x4d];
+/** The snapshot format written by this release. Older formats must still be readable. */
+const SNAPSHOT_VERSION = 1;
+
+/** Appends bytes to a buffer that grows as needed. */
+class SnapshotWriter {
+  private bytes = new Uint8Array(1024);
+  private length = 0;
+
+  private reserve(count: number) {
+    if (this.length + count > this.bytes.length) {
+      const grown = new Uint8Array(
+        Math.max(this.bytes.length * 2, this.length + count),
+      );
+      grown.set(this.bytes.subarray(0, this.length));
+      this.bytes = grown;
+    }
+  }
+
+  writeByte(byte: number) {
+    this.reserve(1);
+    this.bytes[this.length++] = byte;
+  }
+
+  /** Writes a non-negative integer in as few bytes as possible (LEB128). */
+  writeUint(value: number) {
+    while (value >= 0x80) {
+      this.writeByte(value % 0x80 | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.writeByte(value);
+  }
+
+  /** Writes bytes preceded by their length. */
+  writeBytes(bytes: Uint8Array) {
+    this.writeUint(bytes.length);
+    this.reserve(bytes.length);
+    this.bytes.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  finish(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/** Reads what a SnapshotWriter wrote. */
+class SnapshotReader {
+  private readonly bytes: Uint8Array;
+  private offset = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  readByte(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new RangeError("SetKeyedMap snapshot is truncated");
+    }
+    return this.bytes[this.offset++];
+  }
+
+  readUint(): number {
+    let value = 0;
+    let scale = 1;
+    let byte: number;
+    do {
+      byte = this.readByte();
+      value += (byte & 0x7f) * scale;
+      scale *= 0x80;
+    } while (byte & 0x80);
+    return value;
+  }
+
+  readBytes(): Uint8Array {
+    const length = this.readUint();
+    if (this.offset + length > this.bytes.length) {
+      throw new RangeError("SetKeyedMap snapshot is truncated");
+    }
+    return this.bytes.subarray(this.offset, (this.offset += length));
+  }
+}
+
 export class SetKeyedMap<KT, V, K extends Set<KT> = Set<KT>>
   implements Map<K, V>
 {
   private valueMap = new Map<K, V>();
-  private subkeyToKeys = new Map<KT, K[]>();
+  /** Options the map was created with. */
+  private readonly options: SetKeyedMapOptions<KT, V, K>;
+  /** When each entry expires, in the order they expire. Only used with a ttl. */
+  private expiries = new Map<K, number>();
+  /**
+   * Keys from least to most recently used. Only used with a maxSize. Kept apart from
+   *  valueMap, so using an entry does not move it while the map is being iterated.
+   */
+  private recentKeys = new Set<K>();
+  private subkeyToKeys = new Map<unknown, Set<K>>();
+  private subkeyHashes = new Map<unknown, number>();
+  private hashToKeys = new Map<number, Set<K>>();
+  /** Source of distinct subkey hashes. */
+  private subkeyCount = 0;
+  /** The canonical empty key, which has no subkeys to be indexed under. */
+  private emptyKey: K | undefined;
+  /** Counts keys being added and removed, so callbacks that do either can be noticed. */
+  private keyChanges = 0;
+  /** Read-only views of canonical keys, created on first use. */
+  private readonlyViews = new WeakMap<K, ReadonlySet<KT>>();
+  /** Subkeys for object elements in weak mode, which do not keep the elements alive. */
+  private elementTokens = new WeakMap<object, symbol>();
+  /** Evicts entries whose elements are collected, in weak mode. */
+  private registry: FinalizationRegistry<K> | undefined;
+  private listeners = new Set<SetKeyedMapListener<K, V>>();
+  /** Events held back until the current batch ends, or undefined outside a batch. */
+  private pendingEvents: SetKeyedMapEvent<K, V>[] | undefined;
+
+  /** Creates a map, optionally populated from key-value pairs such as another map's entries. */
+  constructor(
+    entries?: Iterable<readonly [Iterable<KT>, V]> | null,
+    options: SetKeyedMapOptions<KT, V, K> = {},
+  ) {
+    if (
+      options.maxSize !== undefined &&
+      !(Number.isInteger(options.maxSize) && options.maxSize > 0)
+    ) {
+      throw new RangeError(
+        `maxSize must be a positive integer, got ${options.maxSize}`,
+      );
+    }
+    if (options.ttl !== undefined && !(options.ttl > 0)) {
+      throw new RangeError(`ttl must be a positive number, got ${options.ttl}`);
+    }
+    this.options = options;
+    this.registry = this.createRegistry();
+    for (const [key, value] of entries ?? []) {
+      this.set(key, value);
+    }
+  }
+
+  /** Creates a map from key-value pairs, optionally transforming each value. */
+  static from<KT, V>(
+    entries: Iterable<readonly [Iterable<KT>, V]>,
+  ): SetKeyedMap<KT, V>;
+  static from<KT, T, V>(
+    entries: Iterable<readonly [Iterable<KT>, T]>,
+    mapfn: (value: T, key: Set<KT>, index: number) => V,
+  ): SetKeyedMap<KT, V>;
+  static from<KT, T, V>(
+    entries: Iterable<readonly [Iterable<KT>, T]>,
+    mapfn?: (value: T, key: Set<KT>, index: number) => V,
+  ): SetKeyedMap<KT, T> | SetKeyedMap<KT, V> {
+    if (!mapfn) {
+      return new SetKeyedMap<KT, T>(entries);
+    }
+    const result = new SetKeyedMap<KT, V>();
+    let index = 0;
+    for (const [key, value] of entries) {
+      const set = new Set(key);
+      result.set(set, mapfn(value, set, index++));
+    }
+    return result;
+  }
+
+  /** Groups items by the set of elements the callback returns for each. */
+  static groupBy<KT, T>(
+    items: Iterable<T>,
+    keySelector: (item: T, index: number) => Iterable<KT>,
+    options: SetKeyedMapOptions<KT, T[]> = {},
+  ): SetKeyedMap<KT, T[]> {
+    const result = new SetKeyedMap<KT, T[]>(null, options);
+    let index = 0;
+    for (const item of items) {
+      result
+        .getOrInsertComputed(keySelector(item, index++), () => [])
+        .push(item);
+    }
+    return result;
+  }
+
+  /** Counts items by the set of elements the callback returns for each. */
+  static countBy<KT, T>(
+    items: Iterable<T>,
+    keySelector: (item: T, index: number) => Iterable<KT>,
+    options: SetKeyedMapOptions<KT, number> = {},
+  ): SetKeyedMap<KT, number> {
+    const result = new SetKeyedMap<KT, number>(null, options);
+    let index = 0;
+    for (const item of items) {
+      result.update(keySelector(item, index++), (count = 0) => count + 1);
+    }
+    return result;
+  }
+
+  /**
+   * Creates a map from its JSON form, either as a string or already parsed.
+   *
+   * Elements and values are used as parsed unless a reviver is given for them.
+   */
+  static fromJSON<KT, V>(
+    json: string | SetKeyedMapJSON<unknown, unknown>,
+    options: SetKeyedMapJSONOptions<KT, V> = {},
+  ): SetKeyedMap<KT, V> {
+    const { reviveElement, reviveValue, ...mapOptions } = options;
+    const data: unknown = typeof json === "string" ? JSON.parse(json) : json;
+    if (!Array.isArray(data)) {
+      throw new TypeError("SetKeyedMap JSON must be an array of entries");
+    }
+
+    const result = new SetKeyedMap<KT, V>(null, mapOptions);
+    for (const entry of data) {
+      if (
+        !Array.isArray(entry) ||
+        entry.length !== 2 ||
+        !Array.isArray(entry[0])
+      ) {
+        throw new TypeError(
+          "SetKeyedMap JSON entries must be [elements[], value] pairs",
+        );
+      }
+      const [elements, value] = entry;
+      result.set(
+        reviveElement
+          ? elements.map((element) => reviveElement(element))
+          : (elements as KT[]),
+        reviveValue ? reviveValue(value) : (value as V),
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Creates a map from a binary snapshot, using the codecs it was written with.
+   *
+   * Snapshots written by earlier releases can still be read.
+   */
+  static fromSnapshot<KT, V>(
+    bytes: Uint8Array,
+    codecs = defaultSnapshotCodecs as SetKeyedMapSnapshotCodecs<KT, V>,
+    options: SetKeyedMapOptions<KT, V> = {},
+  ): SetKeyedMap<KT, V> {
+    const reader = new SnapshotReader(bytes);
+    for (const byte of SNAPSHOT_MAGIC) {
+      if (reader.readByte() !== byte) {
+        throw new TypeError("Not a SetKeyedMap snapshot");
+      }
+    }
+
+    const version = reader.readUint();
+    const result = new SetKeyedMap<KT, V>(null, options);
+    switch (version) {
+      case 1: {
+        // The element dictionary, then each entry as element ids and a value
+        const elements = Array.from({ length: reader.readUint() }, () =>
+          codecs.element.decode(reader.readBytes()),
+        );
+        const entryCount = reader.readUint();
+        for (let i = 0; i < entryCount; i++) {
+          const key = Array.from({ length: reader.readUint() }, () => {
+            const id = reader.readUint();
+            if (id >= elements.length) {
+              throw new RangeError(`SetKeyedMap snapshot has no element ${id}`);
+            }
+            return elements[id];
+          });
+          result.set(key, codecs.value.decode(reader.readBytes()));
+        }
+        return result;
+      }
+      default:
+        throw new TypeError(
+          `SetKeyedMap snapshot version ${version} is not supported`,
+        );
+    }
+  }
+
+  /**
+   * Returns a compact binary snapshot of the map, which can be stored or sent to a worker.
+   *
+   * Each distinct element is encoded once, and keys refer to elements by id.
+   */
+  toSnapshot(
+    codecs = defaultSnapshotCodecs as SetKeyedMapSnapshotCodecs<KT, V>,
+  ): Uint8Array {
+    this.purgeExpired();
+    const writer = new SnapshotWriter();
+    for (const byte of SNAPSHOT_MAGIC) {
+      writer.writeByte(byte);
+    }
+    writer.writeUint(SNAPSHOT_VERSION);
+
+    // Elements are identified by subkey, so equivalent elements share an id
+    const elementIds = new Map<unknown, number>();
+    const elements: KT[] = [];
+    for (const key of this.valueMap.keys()) {
+      for (const element of this.getElements(key)) {
+        const subkey = this.getSubkey(element);
+        if (!elementIds.has(subkey)) {
+          elementIds.set(subkey, elements.length);
+          elements.push(element);
+        }
+      }
+    }
+
+    writer.writeUint(elements.length);
+    for (const element of elements) {
+      writer.writeBytes(codecs.element.encode(element));
+    }
+
+    writer.writeUint(this.valueMap.size);
+    for (const [key, value] of this.valueMap) {
+      const keyElements = this.getElements(key);
+      writer.writeUint(keyElements.length);
+      for (const element of keyElements) {
+        writer.writeUint(elementIds.get(this.getSubkey(element)) as number);
+      }
+      writer.writeBytes(codecs.value.encode(value));
+    }
+
+    return writer.finish();
+  }
+
+  /**
+   * Returns the changes that turn the first map into the second. Keys are compared by
+   *  content, and values by the callback, or Object.is by default.
+   */
+  static diff<KT, V, K extends Set<KT>>(
+    a: SetKeyedMap<KT, V, K>,
+    b: SetKeyedMap<KT, V, K>,
+    valueEquals: (a: V, b: V) => boolean = Object.is,
+  ): SetKeyedMapPatch<KT, V> {
+    a.purgeExpired();
+    b.purgeExpired();
+    const patch: SetKeyedMapPatch<KT, V> = {
+      added: [],
+      removed: [],
+      changed: [],
+    };
+    // Keys are looked up directly, so the diff does not count as using either map's entries
+    for (const [key, value] of b.valueMap) {
+      const elements = b.getElements(key);
+      const canonicalKey = a.getCannonicalKey(elements);
+      if (!canonicalKey) {
+        patch.added.push([elements, value]);
+      } else if (!valueEquals(a.valueMap.get(canonicalKey) as V, value)) {
+        patch.changed.push([elements, value]);
+      }
+    }
+    for (const key of a.valueMap.keys()) {
+      const elements = a.getElements(key);
+      if (!b.getCannonicalKey(elements)) {
+        patch.removed.push(elements);
+      }
+    }
+    return patch;
+  }
+
+  /** Applies the changes from SetKeyedMap.diff, as one batch. */
+  applyPatch(patch: SetKeyedMapPatch<KT, V>): this {
+    this.batch(() => {
+      for (const elements of patch.removed) {
+        this.delete(elements);
+      }
+      for (const [elements, value] of [...patch.added, ...patch.changed]) {
+        this.set(elements, value);
+      }
+    });
+    return this;
+  }
+
+  /** Returns the JSON form of the map: [elements[], value] pairs in insertion order. */
+  toJSON(): SetKeyedMapJSON<KT, V> {
+    this.purgeExpired();
+    return Array.from(this.valueMap, ([key, value]) => [
+      this.getElements(key),
+      value,
+    ]);
+  }
+
+  /** Number of entries pairs in the map. */
+  get size() {
+    this.purgeExpired();
+    return this.valueMap.size;
+  }
+
+  /** Removes all entries. */
+  clear() {
+    // Expired entries are evicted first, so are not reported as cleared
+    this.purgeExpired();
+    if (this.valueMap.size) {
+      this.emit(() => ({
+        type: "clear",
+        entries: Array.from(this.valueMap, ([key, value]) => [
+          this.createUserFacingKey(key),
+          value,
+        ]),
+      }));
+    }
+    this.keyChanges++;
+    this.valueMap.clear();
+    this.expiries.clear();
+    this.recentKeys.clear();
+    // Entries of the old registry will never be found, so it can be dropped with them
+    this.registry = this.createRegistry();
+    this.subkeyToKeys.clear();
+    this.subkeyHashes.clear();
+    this.hashToKeys.clear();
+    this.emptyKey = undefined;
+  }
+
+  /** Finds the canonical key, or false if not found. */
+  private getCannonicalKey(key: Iterable<KT>): K | false {
+    /**
+     * A key is a set of elements, each identified by a subkey.
+     *
+     * Each indexed subkey has a hash, and the hash of a key combines the hashes of its
+     *  subkeys without regard to their order. The hashToKeys map has a set of canonical
+     *  keys for each key hash.
+     *
+     * We search that set for a key that contains all subkeys, and no more. That is the
+     *  canonical key.
+     *
+     * If that key isn't found, then it isn't in the map.
+     */
+
+    if (this.valueMap.has(key as K)) {
+      // If the key is already in the map, then it is the canonical key
+      return key as K;
+    }
+
+    // Elements may repeat subkeys, which must only be counted once
+    const subkeys = this.getSubkeys(key);
+
+    // If any subkey is not indexed, then no canonical key contains it
+    const hash = this.getKeyHash(subkeys);
+    if (hash === undefined) {
+      return false;
+    }
+
+    // Keys with the same hash are almost always equal, but collisions must be ruled out
+    for (const candidate of this.hashToKeys.get(hash) ?? []) {
+      if (this.hasExactSubkeys(candidate, subkeys)) {
+        return candidate;
+      }
+    }
+
+    // If no key in the set matches, then the key is not in the map
+    return false;
+  }
+
+  /** Returns true if the canonical key has all of these subkeys, and no more. */
+  private hasExactSubkeys(
+    canonicalKey: K,
+    subkeys: ReadonlySet<unknown>,
+  ): boolean {
+    if (canonicalKey.size !== subkeys.size) {
+      return false;
+    }
+    // The canonical key is listed against each of its subkeys in subkeyToKeys
+    for (const subkey of subkeys) {
+      if (!this.subkeyToKeys.get(subkey)?.has(canonicalKey)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /** Hashes the key from its subkey hashes, or undefined if any subkey is not indexed. */
+  private getKeyHash(subkeys: Iterable<unknown>): number | undefined {
+    // Addition is order independent, so equivalent sets always have the same sum
+    let sum = 0;
+    let size = 0;
+    for (const subkey of subkeys) {
+      const subkeyHash = this.subkeyHashes.get(subkey);
+      if (subkeyHash === undefined) {
+        return undefined;
+      }
+      sum = (sum + subkeyHash) | 0;
+      size++;
+    }
+    return mixHash(sum ^ Math.imul(size, HASH_MULTIPLIER));
+  }
+
+  /** Returns the subkey identifying an element. */
+  private getSubkey(element: KT): unknown {
+    if (this.options.weak) {
+      if (element instanceof WeakElement) {
+        return element.subkey;
+      }
+      if (!this.options.elementKey && isWeakable(element)) {
+        // The element must not be its own subkey, as the index would keep it alive
+        let token = this.elementTokens.get(element);
+        if (!token) {
+          token = Symbol("element");
+          this.elementTokens.set(element, token);
+        }
+        return token;
+      }
+    }
+    return this.options.elementKey ? this.options.elementKey(element) : element;
+  }
+
+  /** Returns the distinct subkeys identifying the elements of a key. */
+  private getSubkeys(key: Iterable<KT>): ReadonlySet<unknown> {
+    if (!this.options.elementKey && !this.options.weak) {
+      // Elements are their own subkeys
+      return toSet(key);
+    }
+    const subkeys = new Set<unknown>();
+    for (const element of key) {
+      subkeys.add(this.getSubkey(element));
+    }
+    return subkeys;
+  }
+
+  /** Creates a new canonical key from an existing set. */
+  private createCanonicalKey(from: Iterable<KT>): K {
+    let elements = Array.from(from);
+    if (this.options.elementKey) {
+      // Only the first element with each subkey is kept
+      const subkeys = new Set<unknown>();
+      elements = elements.filter((element) => {
+        const subkey = this.getSubkey(element);
+        if (subkeys.has(subkey)) {
+          return false;
+        }
+        subkeys.add(subkey);
+        return true;
+      });
+    }
+    if (this.options.compareElements) {
+      // Canonical keys are never modified, so their elements stay in this order
+      elements.sort(this.options.compareElements);
+    }
+    if (this.options.weak) {
+      return new Set(
+        elements.map((element) =>
+          isWeakable(element)
+            ? new WeakElement(element, this.getSubkey(element))
+            : element,
+        ),
+      ) as K;
+    }
+    return new Set(elements) as K;
+  }
+
+  /** Returns the elements of a canonical key, leaving out any that have been collected. */
+  private getElements(canonicalKey: K): KT[] {
+    if (!this.options.weak) {
+      return Array.from(canonicalKey);
+    }
+    const elements: KT[] = [];
+    for (const element of canonicalKey) {
+      if (!(element instanceof WeakElement)) {
+        elements.push(element);
+        continue;
+      }
+      const target = element.ref.deref();
+      if (target !== undefined) {
+        elements.push(target as KT);
+      }
+    }
+    return elements;
+  }
+
+  /** Creates the registry that evicts entries whose elements are collected, in weak mode. */
+  private createRegistry(): FinalizationRegistry<K> | undefined {
+    if (!this.options.weak) {
+      return undefined;
+    }
+    return new FinalizationRegistry((canonicalKey) => {
+      // The entry may have been removed, or replaced by an equivalent key, since
+      if (this.valueMap.has(canonicalKey)) {
+        this.evict(canonicalKey, "collected");
+      }
+    });
+  }
+  /** Options for maps derived from this one, which handle elements alike but do not evict. */
+  private get elementOptions(): SetKeyedMapOptions<KT> {
+    const { elementKey, compareElements, weak } = this.options;
+    return { elementKey, compareElements, weak };
+  }
+  /** Creates a new user-facing key copy. */
+  private createUserFacingKey(from: K): K {
+    return new Set(this.getElements(from)) as K;
+  }
+  /** Returns the read-only view of a canonical key. */
+  private getReadonlyKey(canonicalKey: K): ReadonlySet<KT> {
+    if (this.options.weak) {
+      // A shared view would keep the elements of its key alive
+      return new ReadonlySetView(new Set(this.getElements(canonicalKey)));
+    }
+    // Canonical keys are never modified, so one view can be shared by every caller
+    let view = this.readonlyViews.get(canonicalKey);
+    if (!view) {
+      view = new ReadonlySetView(canonicalKey);
+      this.readonlyViews.set(canonicalKey, view);
+    }
+    return view;
+  }
+
+  /** Marks the entry as the most recently used, if the map has a maxSize. */
+  private touch(canonicalKey: K): void {
+    if (this.options.maxSize !== undefined) {
+      this.recentKeys.delete(canonicalKey);
+      this.recentKeys.add(canonicalKey);
+    }
+  }
+
+  /** Evicts every entry whose ttl has passed. */
+  private purgeExpired(): void {
+    if (!this.expiries.size) {
+      return;
+    }
+    const now = Date.now();
+    this.batch(() => {
+      // Entries are listed in the order they expire, so the first unexpired one ends the walk
+      for (const [canonicalKey, expiry] of this.expiries) {
+        if (expiry > now) {
+          break;
+        }
+        this.evict(canonicalKey, "expired");
+      }
+    });
+  }
+
+  /** Removes the entry for a canonical key, and tells the onEvict callback. */
+  private evict(canonicalKey: K, reason: EvictionReason): void {
+    const value = this.removeEntry(canonicalKey, reason);
+    this.options.onEvict?.(
+      this.createUserFacingKey(canonicalKey),
+      value,
+      reason,
+    );
+  }
+
+  /** Associates a value with this key in this set. */
+  set(key: K, value: V): this;
+  /** Associates a value with the set of these elements. */
+  set(key: SetKey<KT>, value: V): this;
+  set(key: Iterable<KT>, value: V): this {
+    assertNotString(key);
+    if (this.listeners.size && !this.pendingEvents) {
+      // Listeners hear of the entry and any entries it evicts together
+      return this.batch(() => this.set(key, value));
+    }
+    this.purgeExpired();
+    // The key may be a one-shot iterator, but is needed for both the lookup and the copy
+    const elements = toSet(key);
+    this.setEntry(this.getCannonicalKey(elements), elements, value);
+    return this;
+  }
+
+  /**
+   * Sets the value for a key that has already been looked up, given its canonical key or
+   *  false if it is not in the map.
+   */
+  private setEntry(
+    existingCanonicalKey: K | false,
+    elements: ReadonlySet<KT>,
+    value: V,
+  ): void {
+    let canonicalKey: K;
+
+    if (existingCanonicalKey) {
+      // Update existing key
+      canonicalKey = existingCanonicalKey;
+      const oldValue = this.valueMap.get(canonicalKey) as V;
+      this.valueMap.set(canonicalKey, value);
+      this.emit(() => ({
+        type: "update",
+        key: this.createUserFacingKey(canonicalKey),
+        oldValue,
+        value,
+      }));
+    } else {
+      // Create new key and populate subkeyToKeys index
+      canonicalKey = this.createCanonicalKey(elements);
+      this.keyChanges++;
+      const subkeys = this.getSubkeys(canonicalKey);
+      this.valueMap.set(canonicalKey, value);
+
+      if (!canonicalKey.size) {
+        // The empty key has no subkeys to index
+        this.emptyKey = canonicalKey;
+      }
+
+      // Update subkeyToKeys index for each subkey in the canonical key, hashing any
+      //  subkey that is new to the index
+      for (const subkey of subkeys) {
+        const keySet = this.subkeyToKeys.get(subkey) || new Set();
+        keySet.add(canonicalKey);
+        this.subkeyToKeys.set(subkey, keySet);
+        if (!this.subkeyHashes.has(subkey)) {
+          this.subkeyHashes.set(subkey, mixHash(++this.subkeyCount));
+        }
+      }
+
+      // Update hashToKeys index now that every subkey has a hash
+      const hash = this.getKeyHash(subkeys) as number;
+      const hashSet = this.hashToKeys.get(hash) || new Set();
+      hashSet.add(canonicalKey);
+      this.hashToKeys.set(hash, hashSet);
+
+      // The key is its own unregister token, as it is unregistered when removed
+      for (const element of canonicalKey) {
+        if (element instanceof WeakElement) {
+          this.registry?.register(
+            element.ref.deref() as object,
+            canonicalKey,
+            canonicalKey,
+          );
+        }
+      }
+
+      this.emit(() => ({
+        type: "set",
+        key: this.createUserFacingKey(canonicalKey),
+        value,
+      }));
+    }
+
+    if (this.options.ttl !== undefined) {
+      // Re-inserting keeps expiries in the order they expire
+      this.expiries.delete(canonicalKey);
+      this.expiries.set(canonicalKey, Date.now() + this.options.ttl);
+    }
+
+    this.touch(canonicalKey);
+    // The least recently used entry is always first in recentKeys
+    while (
+      this.options.maxSize !== undefined &&
+      this.valueMap.size > this.options.maxSize
+    ) {
+      this.evict(this.recentKeys.values().next().value as K, "capacity");
+    }
+  }
+
+  /** Returns the value, first setting it to the default if the key is not in the map. */
+  getOrInsert(key: K, defaultValue: V): V;
+  /** Returns the value for the set of these elements, first setting it to the default if not found. */
+  getOrInsert(key: SetKey<KT>, defaultValue: V): V;
+  getOrInsert(key: Iterable<KT>, defaultValue: V): V {
+    return this.getOrInsertComputed(key, () => defaultValue);
+  }
+
+  /**
+   * Returns the value, first setting it to the result of the callback if the key is not in
+   *  the map.
+   */
+  getOrInsertComputed(key: K, callbackfn: (key: K) => V): V;
+  /**
+   * Returns the value for the set of these elements, first setting it to the result of the
+   *  callback if not found.
+   */
+  getOrInsertComputed(key: SetKey<KT>, callbackfn: (key: K) => V): V;
+  getOrInsertComputed(key: Iterable<KT>, callbackfn: (key: K) => V): V {
+    assertNotString(key);
+    if (this.listeners.size && !this.pendingEvents) {
+      // Listeners hear of the entry and any entries it evicts together
+      return this.batch(() => this.getOrInsertComputed(key, callbackfn));
+    }
+    this.purgeExpired();
+    const elements = toSet(key);
+    const canonicalKey = this.getCannonicalKey(elements);
+    if (canonicalKey) {
+      this.touch(canonicalKey);
+      return this.valueMap.get(canonicalKey) as V;
+    }
+    return this.computeEntry(canonicalKey, elements, callbackfn);
+  }
+
+  /**
+   * Sets the value to the result of the callback, which is given the current value or
+   *  undefined if the key is not in the map. Returns the new value.
+   */
+  update(key: K, callbackfn: (value: V | undefined, key: K) => V): V;
+  /**
+   * Sets the value for the set of these elements to the result of the callback, which is
+   *  given the current value or undefined if not found. Returns the new value.
+   */
+  update(key: SetKey<KT>, callbackfn: (value: V | undefined, key: K) => V): V;
+  update(
+    key: Iterable<KT>,
+    callbackfn: (value: V | undefined, key: K) => V,
+  ): V {
+    assertNotString(key);
+    if (this.listeners.size && !this.pendingEvents) {
+      // Listeners hear of the entry and any entries it evicts together
+      return this.batch(() => this.update(key, callbackfn));
+    }
+    this.purgeExpired();
+    const elements = toSet(key);
+    const canonicalKey = this.getCannonicalKey(elements);
+    const value = canonicalKey ? this.valueMap.get(canonicalKey) : undefined;
+    return this.computeEntry(canonicalKey, elements, (userFacingKey) =>
+      callbackfn(value, userFacingKey),
+    );
+  }
+
+  /**
+   * Sets the value for a key that has already been looked up to the result of the
+   *  callback, and returns it.
+   */
+  private computeEntry(
+    canonicalKey: K | false,
+    elements: ReadonlySet<KT>,
+    callbackfn: (key: K) => V,
+  ): V {
+    const keyChanges = this.keyChanges;
+    const value = callbackfn(new Set(elements) as K);
+    // The callback may have added or removed keys, which would make the lookup stale
+    if (keyChanges !== this.keyChanges) {
+      this.purgeExpired();
+      canonicalKey = this.getCannonicalKey(elements);
+    }
+    this.setEntry(canonicalKey, elements, value);
+    return value;
+  }
+
+  /** Removes the entry. Returns true if an entry was removed. */
+  delete(key: K): boolean;
+  /** Removes the entry for the set of these elements. Returns true if an entry was removed. */
+  delete(key: SetKey<KT>): boolean;
+  delete(key: Iterable<KT>): boolean {
+    assertNotString(key);
+    this.purgeExpired();
+    const canonicalKey = this.getCannonicalKey(key);
+    if (!canonicalKey) {
+      // If there is no canonical key, then the key is not in the map :. false
+      return false;
+    }
+    this.removeEntry(canonicalKey);
+    // A key was deleted :. true
+    return true;
+  }
+
+  /** Removes the entry for a canonical key and tells listeners. Returns its value. */
+  private removeEntry(canonicalKey: K, reason?: EvictionReason): V {
+    const oldValue = this.valueMap.get(canonicalKey) as V;
+    this.removeCanonicalKey(canonicalKey);
+    this.emit(() => ({
+      type: "delete",
+      key: this.createUserFacingKey(canonicalKey),
+      oldValue,
+      ...(reason && { reason }),
+    }));
+    return oldValue;
+  }
+
+  /** Removes the entry for a canonical key, and its subkeys from the index. */
+  private removeCanonicalKey(canonicalKey: K): void {
+    this.keyChanges++;
+    this.registry?.unregister(canonicalKey);
+    // The hash must be taken while the subkeys are still indexed, and the canonical key
+    //  removed from its set.
+    const subkeys = this.getSubkeys(canonicalKey);
+    const hash = this.getKeyHash(subkeys) as number;
+    const hashSet = this.hashToKeys.get(hash);
+    hashSet?.delete(canonicalKey);
+    if (!hashSet?.size) {
+      this.hashToKeys.delete(hash);
+    }
+    // As the key is present, each subkey must have a reference to it in the subkeyToKeys map
+    //  and this reference must be removed.
+    for (const subkey of subkeys) {
+      // Retrieve the set of keys that contain this subkey, and remove the canonical key
+      const keySet = this.subkeyToKeys.get(subkey);
+      if (!keySet) {
+        // This should not happen, as the canonical key did exist. This check is for TS.
+        continue;
+      }
+      keySet.delete(canonicalKey);
+      if (!keySet.size) {
+        // If the set is empty, then remove the subkey from the map and forget its hash
+        this.subkeyToKeys.delete(subkey);
+        this.subkeyHashes.delete(subkey);
+      }
+    }
+    if (canonicalKey === this.emptyKey) {
+      this.emptyKey = undefined;
+    }
+    // Remove the canonical key from the map
+    this.valueMap.delete(canonicalKey);
+    this.expiries.delete(canonicalKey);
+    this.recentKeys.delete(canonicalKey);
+  }
+
+  /** Removes every entry whose key contains this element. Returns how many were removed. */
+  deleteContaining(element: KT): number {
+    return this.deleteContainingAny([element]);
+  }
+
+  /** Removes every entry whose key contains any of these elements. Returns how many were removed. */
+  deleteContainingAny(elements: SetKey<KT>): number {
+    assertNotString(elements);
+    this.purgeExpired();
+    // A key may contain several of the elements, but should only be removed once
+    const canonicalKeys = new Set<K>();
+    for (const subkey of this.getSubkeys(elements)) {
+      for (const canonicalKey of this.subkeyToKeys.get(subkey) ?? []) {
+        canonicalKeys.add(canonicalKey);
+      }
+    }
+    this.batch(() => {
+      for (const canonicalKey of canonicalKeys) {
+        this.removeEntry(canonicalKey);
+      }
+    });
+    return canonicalKeys.size;
+  }
+
+  /** Returns the value, or undefined if not found. */
+  get(key: K): V | undefined;
+  /** Returns the value for the set of these elements, or undefined if not found. */
+  get(key: SetKey<KT>): V | undefined;
+  get(key: Iterable<KT>): V | undefined {
+    assertNotString(key);
+    this.purgeExpired();
+    // Get the canonical key representation for this key
+    const canonicalKey = this.getCannonicalKey(key);
+    if (!canonicalKey) {
+      // If there is no canonical key, then the key is not in the map
+      return undefined;
+    }
+    this.touch(canonicalKey);
+    return this.valueMap.get(canonicalKey);
+  }
+
+  /** Returns true if an entry exists. */
+  has(key: K): boolean;
+  /** Returns true if an entry exists for the set of these elements. */
+  has(key: SetKey<KT>): boolean;
+  has(key: Iterable<KT>): boolean {
+    assertNotString(key);
+    this.purgeExpired();
+    // Get the canonical key representation for this key
+    const canonicalKey = this.getCannonicalKey(key);
+    if (!canonicalKey) {
+      // If there is no canonical key, then the key is not in the map
+      return false;
+    }
+    this.touch(canonicalKey);
+    return this.valueMap.has(canonicalKey);
+  }
+
+  /** Iterator over all set keys. */
+  *keys(): MapIterator<K> {
+    this.purgeExpired();
+    for (const key of this.valueMap.keys()) {
+      yield this.createUserFacingKey(key);
+    }
+  }
+
+  /** Iterator over all values. */
+  *values(): MapIterator<V> {
+    this.purgeExpired();
+    yield* this.valueMap.values();
+  }
+
+  /** Iterator over all key-value pairs. */
+  *entries(): MapIterator<[K, V]> {
+    this.purgeExpired();
+    for (const [key, value] of this.valueMap.entries()) {
+      yield [this.createUserFacingKey(key), value];
+    }
+  }
+
+  [Symbol.iterator](): MapIterator<[K, V]> {
+    return this.entries();
+  }
+
+  /** Iterator over read-only views of all set keys, which are not copied. */
+  *readonlyKeys(): MapIterator<ReadonlySet<KT>> {
+    this.purgeExpired();
+    for (const key of this.valueMap.keys()) {
+      yield this.getReadonlyKey(key);
+    }
+  }
+
+  /** Iterator over all key-value pairs, with read-only views of keys that are not copied. */
+  *readonlyEntries(): MapIterator<[ReadonlySet<KT>, V]> {
+    this.purgeExpired();
+    for (const [key, value] of this.valueMap.entries()) {
+      yield [this.getReadonlyKey(key), value];
+    }
+  }
+
+  /** Iterator over all set keys, from last inserted to first. */
+  *keysReversed(): MapIterator<K> {
+    for (const [key] of this.entriesReversed()) {
+      yield key;
+    }
+  }
+
+  /** Iterator over all values, from last inserted to first. */
+  *valuesReversed(): MapIterator<V> {
+    for (const [, value] of this.entriesReversed()) {
+      yield value;
+    }
+  }
+
+  /**
+   * Iterator over all key-value pairs, ordered by their keys' sorted elements.
+   *
+   * Uses the compareElements option unless another comparison is given.
+   */
+  *sortedEntries(
+    compareElements?: (a: KT, b: KT) => number,
+  ): MapIterator<[K, V]> {
+    const compare = compareElements ?? this.options.compareElements;
+    if (!compare) {
+      throw new TypeError(
+        "sortedEntries() requires a compareElements option or argument",
+      );
+    }
+    this.purgeExpired();
+    const sortedKeys = Array.from(
+      this.valueMap.keys(),
+      (key) => [key, this.getElements(key).sort(compare)] as const,
+    );
+    sortedKeys.sort(([, a], [, b]) => compareSortedElements(a, b, compare));
+    for (const [key] of sortedKeys) {
+      // The key may have been removed since the keys were sorted
+      if (this.valueMap.has(key)) {
+        yield [this.createUserFacingKey(key), this.valueMap.get(key) as V];
+      }
+    }
+  }
+
+  /** Iterator over all key-value pairs, from last inserted to first. */
+  *entriesReversed(): MapIterator<[K, V]> {
+    this.purgeExpired();
+    // Maps can only be walked forwards, so the keys are captured up front
+    const keys = Array.from(this.valueMap.keys());
+    for (let i = keys.length - 1; i >= 0; i--) {
+      const key = keys[i];
+      // The key may have been removed since the keys were captured
+      if (this.valueMap.has(key)) {
+        yield [this.createUserFacingKey(key), this.valueMap.get(key) as V];
+      }
+    }
+  }
+
+  /** Returns the entry at this position, counting from the end if negative. */
+  at(index: number): [K, V] | undefined {
+    this.purgeExpired();
+    index = Math.trunc(index) || 0;
+    if (index < 0) {
+      index += this.valueMap.size;
+    }
+    if (index < 0 || index >= this.valueMap.size) {
+      return undefined;
+    }
+    for (const [key, value] of this.valueMap) {
+      if (index-- === 0) {
+        return [this.createUserFacingKey(key), value];
+      }
+    }
+    return undefined;
+  }
+
+  /** Returns the first inserted entry, or undefined if empty. */
+  first(): [K, V] | undefined {
+    return this.at(0);
+  }
+
+  /** Returns the last inserted entry, or undefined if empty. */
+  last(): [K, V] | undefined {
+    return this.at(-1);
+  }
+
+  [Symbol.toStringTag] = "SetKeyedMap";
+
+  [Symbol.dispose](): void {
+    this.clear();
+  }
+
+  /** Calls the listener with each change to the map. Returns a function that unsubscribes it. */
+  subscribe(listener: SetKeyedMapListener<K, V>): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Runs the callback, telling listeners of every change it makes at once when it ends.
+   *
+   * Batches may be nested, in which case listeners are told when the outermost ends.
+   */
+  batch<T>(callbackfn: () => T): T {
+    if (this.pendingEvents) {
+      return callbackfn();
+    }
+    this.pendingEvents = [];
+    try {
+      return callbackfn();
+    } finally {
+      const events = this.pendingEvents;
+      this.pendingEvents = undefined;
+      this.notify(events);
+    }
+  }
+
+  /** Tells listeners of a change, or holds it until the batch ends. */
+  private emit(createEvent: () => SetKeyedMapEvent<K, V>): void {
+    // Events copy keys, so are only created when someone is listening
+    if (!this.listeners.size) {
+      return;
+    }
+    if (this.pendingEvents) {
+      this.pendingEvents.push(createEvent());
+    } else {
+      this.notify([createEvent()]);
+    }
+  }
+
+  private notify(events: readonly SetKeyedMapEvent<K, V>[]): void {
+    if (!events.length) {
+      return;
+    }
+    // Listeners may unsubscribe while being notified
+    for (const listener of Array.from(this.listeners)) {
+      listener(events);
+    }
+  }
+
+  /** Iterator over entries whose key is a subset of the given set. */
+  *subsetsOf(set: SetKey<KT>): MapIterator<[K, V]> {
+    assertNotString(set);
+    this.purgeExpired();
+    /**
+     * Every subkey of a subset is also in the given set, so only keys listed against
+     *  the given subkeys in subkeyToKeys are candidates.
+     *
+     * Counting how many of the given subkeys each candidate contains identifies the
+     *  subsets: they are the candidates where every one of their subkeys was counted.
+     *
+     * The empty key has no subkeys to be listed against, but is a subset of every set.
+     */
+    if (this.emptyKey) {
+      yield [
+        this.createUserFacingKey(this.emptyKey),
+        this.valueMap.get(this.emptyKey) as V,
+      ];
+    }
+
+    const counts = new Map<K, number>();
+    for (const subkey of this.getSubkeys(set)) {
+      for (const key of this.subkeyToKeys.get(subkey) ?? []) {
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+    }
+
+    for (const [key, count] of counts) {
+      // The key may have been removed since the counts were taken
+      if (count === key.size && this.valueMap.has(key)) {
+        yield [this.createUserFacingKey(key), this.valueMap.get(key) as V];
+      }
+    }
+  }
+
+  /** Iterator over entries whose key is a superset of the given set. */
+  *supersetsOf(set: SetKey<KT>): MapIterator<[K, V]> {
+    assertNotString(set);
+    this.purgeExpired();
+    const subkeys = this.getSubkeys(set);
+    if (!subkeys.size) {
+      // Every key is a superset of the empty set
+      yield* this.entries();
+      return;
+    }
+
+    // A superset must appear in the key set of every subkey, so only the smallest set
+    //  needs to be walked.
+    const keySets: Set<K>[] = [];
+    for (const subkey of subkeys) {
+      const keys = this.subkeyToKeys.get(subkey);
+      if (!keys) {
+        // No key contains this subkey :. there are no supersets
+        return;
+      }
+      keySets.push(keys);
+    }
+    keySets.sort((a, b) => a.size - b.size);
+    const [smallest, ...others] = keySets;
+
+    for (const key of smallest) {
+      if (
+        key.size >= subkeys.size &&
+        others.every((keys) => keys.has(key)) &&
+        this.valueMap.has(key)
+      ) {
+        yield [this.createUserFacingKey(key), this.valueMap.get(key) as V];
+      }
+    }
+  }
+
+  /** Iterator over entries whose key shares at least one element with the given set. */
+  *intersecting(set: SetKey<KT>): MapIterator<[K, V]> {
+    assertNotString(set);
+    this.purgeExpired();
+    // A key may contain several of the given subkeys, but should only be yielded once
+    const seen = new Set<K>();
+    for (const subkey of this.getSubkeys(set)) {
+      for (const key of this.subkeyToKeys.get(subkey) ?? []) {
+        if (!seen.has(key) && this.valueMap.has(key)) {
+          seen.add(key);
+          yield [this.createUserFacingKey(key), this.valueMap.get(key) as V];
+        }
+      }
+    }
+  }
+
+  /** Iterator over the entries whose keys meet every condition of the query. */
+  *query({
+    all = [],
+    any,
+    none = [],
+    minSize = 0,
+    maxSize = Infinity,
+  }: SetKeyedMapQuery<KT>): MapIterator<[K, V]> {
+    for (const elements of [all, any ?? [], none]) {
+      assertNotString(elements);
+    }
+    /**
+     * Candidates are taken from subkeyToKeys where the query allows: the keys of the rarest
+     *  required subkey, or else the keys of any of the optional subkeys. Only when neither
+     *  is given must every key be a candidate.
+     *
+     * Each candidate is then checked against the rest of the query with the key sets of
+     *  the subkeys, so no key is compared element by element.
+     */
+    this.purgeExpired();
+    const keySetsOf = (elements: Iterable<KT>) =>
+      Array.from(
+        this.getSubkeys(elements),
+        (subkey) => this.subkeyToKeys.get(subkey) ?? new Set<K>(),
+      );
+    const allKeySets = keySetsOf(all).sort((a, b) => a.size - b.size);
+    const anyKeySets = any && keySetsOf(any);
+    const noneKeySets = keySetsOf(none);
+
+    let candidates: Iterable<K>;
+    if (allKeySets.length) {
+      candidates = allKeySets[0];
+    } else if (anyKeySets) {
+      // A key may contain several of the optional subkeys, but should only be yielded once
+      candidates = new Set(anyKeySets.flatMap((keys) => Array.from(keys)));
+    } else {
+      candidates = this.valueMap.keys();
+    }
+
+    for (const key of candidates) {
+      if (
+        key.size >= minSize &&
+        key.size <= maxSize &&
+        allKeySets.every((keys) => keys.has(key)) &&
+        (!anyKeySets || anyKeySets.some((keys) => keys.has(key))) &&
+        !noneKeySets.some((keys) => keys.has(key)) &&
+        // The key may have been removed since iteration began
+        this.valueMap.has(key)
+      ) {
+        yield [this.createUserFacingKey(key), this.valueMap.get(key) as V];
+      }
+    }
+  }
+
+  /**
+   * Returns the entries whose keys are most similar to the set, most similar first, each
+   *  with its score from 0 to 1. Only keys sharing an element with the set are scored.
+   */
+  nearest(
+    set: SetKey<KT>,
+    { k = 1, metric = "jaccard" }: NearestOptions = {},
+  ): [K, V, number][] {
+    assertNotString(set);
+    if (!(Number.isInteger(k) && k > 0)) {
+      throw new RangeError(`k must be a positive integer, got ${k}`);
+    }
+    if (!SIMILARITY_METRICS.has(metric)) {
+      throw new TypeError(`Unknown similarity metric: ${metric}`);
+    }
+    this.purgeExpired();
+    const subkeys = this.getSubkeys(set);
+
+    // Keys listed against the set's subkeys are the candidates, each counted once per
+    //  subkey it shares
+    const counts = new Map<K, number>();
+    for (const subkey of subkeys) {
+      for (const key of this.subkeyToKeys.get(subkey) ?? []) {
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+    }
+
+    const scored = Array.from(
+      counts,
+      ([key, shared]) =>
+        [key, scoreSimilarity(metric, shared, subkeys.size, key.size)] as const,
+    );
+    // Sorting is stable, so equally similar keys stay in the order they were found
+    scored.sort(([, a], [, b]) => b - a);
+    return scored
+      .slice(0, k)
+      .map(([key, score]) => [
+        this.createUserFacingKey(key),
+        this.valueMap.get(key) as V,
+        score,
+      ]);
+  }
+
+  /** Iterator over the keys that contain this element. */
+  *keysContaining(element: KT): MapIterator<K> {
+    this.purgeExpired();
+    for (const key of this.subkeyToKeys.get(this.getSubkey(element)) ?? []) {
+      yield this.createUserFacingKey(key);
+    }
+  }
+
+  /** Views other entries as a SetKeyedMap, so keys compare by content. */
+  private toSetKeyedMap<T>(
+    other: Iterable<readonly [Iterable<KT>, T]>,
+  ): SetKeyedMap<KT, T> {
+    return other instanceof SetKeyedMap
+      ? other
+      : new SetKeyedMap<KT, T>(other, this.elementOptions);
+  }
+
+  /** Sets each of the entries, resolving conflicts with existing keys by the callback. */
+  private mergeEntries(
+    entries: Iterable<readonly [Iterable<KT>, V]>,
+    resolveConflict?: (value: V, otherValue: V, key: K) => V,
+  ): void {
+    this.batch(() => {
+      for (const [key, value] of entries) {
+        this.purgeExpired();
+        const elements = toSet(key);
+        const canonicalKey = this.getCannonicalKey(elements);
+        if (!canonicalKey || !resolveConflict) {
+          this.setEntry(canonicalKey, elements, value);
+          continue;
+        }
+        const existingValue = this.valueMap.get(canonicalKey) as V;
+        this.computeEntry(canonicalKey, elements, (userFacingKey) =>
+          resolveConflict(existingValue, value, userFacingKey),
+        );
+      }
+    });
+  }
+
+  /**
+   * Sets every entry of the other maps, in order, replacing the values of keys already
+   *  in the map.
+   */
+  merge(...others: Iterable<readonly [Iterable<KT>, V]>[]): this {
+    for (const other of others) {
+      this.mergeEntries(other);
+    }
+    return this;
+  }
+
+  /**
+   * Returns a new SetKeyedMap with the entries of both. Where both have a key, the other's
+   *  value is kept, unless the callback resolves the conflict.
+   */
+  union(
+    other: Iterable<readonly [Iterable<KT>, V]>,
+    resolveConflict?: (value: V, otherValue: V, key: K) => V,
+  ): SetKeyedMap<KT, V, K> {
+    const result = new SetKeyedMap<KT, V, K>(
+      this.readonlyEntries(),
+      this.elementOptions,
+    );
+    result.mergeEntries(other, resolveConflict);
+    return result;
+  }
+
+  /**
+   * Returns a new SetKeyedMap with the entries of this map whose key is, or is not, in the
+   *  other. Keys are looked up directly, so this does not count as using either map's
+   *  entries.
+   */
+  private filterByKeysOf<T>(
+    otherMap: SetKeyedMap<KT, T>,
+    inOther: boolean,
+  ): SetKeyedMap<KT, V, K> {
+    this.purgeExpired();
+    otherMap.purgeExpired();
+    const result = new SetKeyedMap<KT, V, K>(null, this.elementOptions);
+    for (const [key, value] of this.valueMap) {
+      const elements = this.getElements(key);
+      if (Boolean(otherMap.getCannonicalKey(elements)) === inOther) {
+        result.set(elements, value);
+      }
+    }
+    return result;
+  }
+
+  /** Returns a new SetKeyedMap with the entries whose key is also in the other. */
+  intersection(
+    other: Iterable<readonly [Iterable<KT>, unknown]>,
+  ): SetKeyedMap<KT, V, K> {
+    return this.filterByKeysOf(this.toSetKeyedMap(other), true);
+  }
+
+  /** Returns a new SetKeyedMap with the entries whose key is not in the other. */
+  difference(
+    other: Iterable<readonly [Iterable<KT>, unknown]>,
+  ): SetKeyedMap<KT, V, K> {
+    return this.filterByKeysOf(this.toSetKeyedMap(other), false);
+  }
+
+  /** Returns a new SetKeyedMap with the entries whose key is in exactly one of the two. */
+  symmetricDifference(
+    other: Iterable<readonly [Iterable<KT>, V]>,
+  ): SetKeyedMap<KT, V, K> {
+    const otherMap = this.toSetKeyedMap(other);
+    const result = this.filterByKeysOf(otherMap, false);
+    // Both maps were purged when the difference was taken
+    for (const [key, value] of otherMap.valueMap) {
+      const elements = otherMap.getElements(key);
+      if (!this.getCannonicalKey(elements)) {
+        result.set(elements, value);
+      }
+    }
+    return result;
+  }
+
+  /** Executes a callback for each entry. */
+  forEach(
+    callbackfn: (value: V, key: K, map: SetKeyedMap<KT, V, K>) => void,
+    thisArg?: any,
+  ): void {
+    for (const [key, value] of this.entries()) {
+      callbackfn.call(thisArg, value, key, this);
+    }
+  }
+
+  /** Tests whether all entries pass the provided predicate. */
+  every(
+    callbackfn: (value: V, key: K, map: SetKeyedMap<KT, V, K>) => boolean,
+    thisArg?: any,
+  ): boolean {
+    for (const [key, value] of this.entries()) {
+      if (!callbackfn.call(thisArg, value, key, this)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /** Returns a new SetKeyedMap with entries that pass the predicate. */
+  filter(
+    callbackfn: (value: V, key: K, map: SetKeyedMap<KT, V, K>) => boolean,
+    thisArg?: any,
+  ): SetKeyedMap<KT, V, K> {
+    const result = new SetKeyedMap<KT, V, K>(null, this.elementOptions);
+    for (const [key, value] of this.entries()) {
+      if (callbackfn.call(thisArg, value, key, this)) {
+        result.set(key, value);
+      }
+    }
+    return result;
+  }
+
+  /** Tests whether at least one entry passes the predicate. */
+  some(
+    callbackfn: (value: V, key: K, map: SetKeyedMap<KT, V, K>) => boolean,
+    thisArg?: any,
+  ): boolean {
+    for (const [key, value] of this.entries()) {
+      if (callbackfn.call(thisArg, value, key, this)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /** Returns the first entry that matches the predicate. */
+  find(
+    callbackfn: (value: V, key: K, map: SetKeyedMap<KT, V, K>) => boolean,
+    thisArg?: any,
+  ): [K, V] | undefined {
+    for (const [key, value] of this.entries()) {
+      if (callbackfn.call(thisArg, value, key, this)) {
+        return [key, value];
+      }
+    }
+    return undefined;
+  }
+
+  /** Returns true if any entry has this value. */
+  includes(value: V): boolean {
+    for (const v of this.values()) {
+      if (v === value) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /** Maps entries to an array of transformed values. */
+  map<T>(
+    callbackfn: (value: V, key: K, map: SetKeyedMap<KT, V, K>) => T,
+    thisArg?: any,
+  ): T[] {
+    const result: T[] = [];
+    for (const [key, value] of this.entries()) {
+      result.push(callbackfn.call(thisArg, value, key, this));
+    }
+    return result;
+  }
+
+  /** Maps entries to arrays and flattens the result. */
+  flatMap<T>(
+    callbackfn: (value: V, key: K, map: SetKeyedMap<KT, V, K>) => T[],
+    thisArg?: any,
+  ): T[] {
+    const result: T[] = [];
+    for (const [key, value] of this.entries()) {
+      result.push(...callbackfn.call(thisArg, value, key, this));
+    }
+    return result;
+  }
+
+  /** Returns a new SetKeyedMap with transformed values. */
+  mapOver<T>(
+    callbackfn: (value: V, key: K, map: SetKeyedMap<KT, V, K>) => T,
+    thisArg?: any,
+  ): SetKeyedMap<KT, T, K> {
+    const result = new SetKeyedMap<KT, T, K>(null, this.elementOptions);
+    for (const [key, value] of this.entries()) {
+      result.set(key, callbackfn.call(thisArg, value, key, this));
+    }
+    return result;
+  }
+
+  /** Reduces entries to a single value from left to right. */
+  reduce<T>(
+    callbackfn: (
+      previousValue: T,
+      value: V,
+      key: K,
+      map: SetKeyedMap<KT, V, K>,
+    ) => T,
+    initialValue: T,
+  ): T {
+    let accumulator = initialValue;
+    for (const [key, value] of this.entries()) {
+      accumulator = callbackfn(accumulator, value, key, this);
+    }
+    return accumulator;
+  }
+
+  /** Reduces entries to a single value from right to left. */
+  reduceRight<T>(
+    callbackfn: (
+      previousValue: T,
+      value: V,
+      key: K,
+      map: SetKeyedMap<KT, V, K>,
+    ) => T,
+    initialValue: T,
+  ): T {
+    let accumulator = initialValue;
+    for (const [key, value] of this.entriesReversed()) {
+      accumulator = callbackfn(accumulator, value, key, this);
+    }
+    return accumulator;
+  }
+}
+
+/** A function memoized by memoizeBySet. */
+export interface MemoizedBySet<KT, R> {
+  (set: Iterable<KT>): R;
+  /** Forgets the result for this set. Returns true if there was one. */
+  invalidate(set: Iterable<KT>): boolean;
+  /** Forgets the result for every set containing this element. Returns how many were forgotten. */
+  invalidateContaining(element: KT): number;
+  /** Forgets every result. */
+  clear(): void;
+}
+
+/**
+ * Memoizes a function of a set, so equivalent sets share one result.
+ *
+ * Promises are cached too, so concurrent calls with equivalent sets share one call, but
+ *  a promise that rejects is forgotten so the next call tries again.
+ */
+export function memoizeBySet<KT, R>(
+  fn: (set: Set<KT>) => R,
+  options: SetKeyedMapOptions<KT, R> = {},
+): MemoizedBySet<KT, R> {
+  const cache = new SetKeyedMap<KT, R>(null, options);
+
+  const memoized = (set: Iterable<KT>): R => {
+    // The set may be a one-shot iterator, but is needed for both the lookup and the call
+    const key = new Set(set);
+    let computed = false;
+    // A single lookup, so the entry cannot expire between finding and reading it
+    const result = cache.getOrInsertComputed(key, () => {
+      computed = true;
+      return fn(key);
+    });
+    if (computed && result instanceof Promise) {
+      result.catch(() => {
+        // Only forget the promise if it has not been replaced since
+        if (cache.get(key) === result) {
+          cache.delete(key);
+        }
+      });
+    }
+    return result;
+  };
+
+  return Object.assign(memoized, {
+    invalidate: (set: Iterable<KT>) => cache.delete(set),
+    invalidateContaining: (element: KT) => cache.deleteContaining(element),
+    clear: () => cache.clear(),
+  });
+}
+
+/**
+ * A set of sets. Any two equivalent sets are the same member, even when they are
+ *  different objects.
+ */
+export class SetKeyedSet<KT> implements Set<Set<KT>> {
+  /** Members are the keys of a map, which finds them by content. */
+  private map: SetKeyedMap<KT, true>;
+  /** Options the set was created with. */
+  private readonly options: SetKeyedMapOptions<KT>;
+
+  /** Creates a set, optionally populated with members such as another set's members. */
+  constructor(
+    values?: Iterable<Iterable<KT>> | null,
+    options: SetKeyedMapOptions<KT> = {},
+  ) {
+    this.options = options;
+    this.map = new SetKeyedMap<KT, true>(null, options);
+    for (const value of values ?? []) {
+      this.add(value);
+    }
+  }
+
+  /** Number of members in the set. */
+  get size() {
+    return this.map.size;
+  }
+
+  /** Removes all members. */
+  clear() {
+    this.map.clear();
+  }
+
+  /** Adds a member, unless an equivalent member is already present. */
+  add(value: Iterable<KT>): this {
+    if (!this.map.has(value)) {
+      this.map.set(value, true);
+    }
+    return this;
+  }
+
+  /** Removes the member. Returns true if a member was removed. */
+  delete(value: Iterable<KT>): boolean {
+    return this.map.delete(value);
+  }
+
+  /** Returns true if an equivalent member exists. */
+  has(value: Iterable<KT>): boolean {
+    return this.map.has(value);
+  }
+
+  /** Iterator over all members. */
+  *values(): SetIterator<Set<KT>> {
+    yield* this.map.keys();
+  }
+
+  /** Iterator over all members, as for Set. */
+  *keys(): SetIterator<Set<KT>> {
+    yield* this.map.keys();
+  }
+
+  /** Iterator over all members paired with themselves, as for Set. */
+  *entries(): SetIterator<[Set<KT>, Set<KT>]> {
+    for (const value of this.map.keys()) {
+      yield [value, value];
+    }
+  }
+
+  [Symbol.iterator](): SetIterator<Set<KT>> {
+    return this.values();
+  }
+
+  [Symbol.toStringTag] = "SetKeyedSet";
+
+  [Symbol.dispose](): void {
+    this.clear();
+  }
+
+  /** Executes a callback for each member. */
+  forEach(
+    callbackfn: (value: Set<KT>, value2: Set<KT>, set: SetKeyedSet<KT>) => void,
+    thisArg?: any,
+  ): void {
+    for (const value of this.values()) {
+      callbackfn.call(thisArg, value, value, this);
+    }
+  }
+
+  /** Options for sets derived from this one, which handle elements alike but do not evict. */
+  private get elementOptions(): SetKeyedMapOptions<KT> {
+    const { elementKey, compareElements, weak } = this.options;
+    return { elementKey, compareElements, weak };
+  }
+
+  /** Views another collection of sets as a SetKeyedSet, so members compare by content. */
+  private toSetKeyedSet(other: Iterable<Iterable<KT>>): SetKeyedSet<KT> {
+    return other instanceof SetKeyedSet
+      ? other
+      : new SetKeyedSet(other, this.elementOptions);
+  }
+
+  /** Returns a new SetKeyedSet with the members of both. */
+  union(other: Iterable<Iterable<KT>>): SetKeyedSet<KT> {
+    const result = new SetKeyedSet<KT>(this, this.elementOptions);
+    for (const value of other) {
+      result.add(value);
+    }
+    return result;
+  }
+
+  /** Returns a new SetKeyedSet with the members in both. */
+  intersection(other: Iterable<Iterable<KT>>): SetKeyedSet<KT> {
+    const otherSet = this.toSetKeyedSet(other);
+    const result = new SetKeyedSet<KT>(null, this.elementOptions);
+    for (const value of this.values()) {
+      if (otherSet.has(value)) {
+        result.add(value);
+      }
+    }
+    return result;
+  }
+
+  /** Returns a new SetKeyedSet with the members not in the other. */
+  difference(other: Iterable<Iterable<KT>>): SetKeyedSet<KT> {
+    const otherSet = this.toSetKeyedSet(other);
+    const result = new SetKeyedSet<KT>(null, this.elementOptions);
+    for (const value of this.values()) {
+      if (!otherSet.has(value)) {
+        result.add(value);
+      }
+    }
+    return result;
+  }
+
+  /** Returns a new SetKeyedSet with the members in exactly one of the two. */
+  symmetricDifference(other: Iterable<Iterable<KT>>): SetKeyedSet<KT> {
+    const otherSet = this.toSetKeyedSet(other);
+    const result = this.difference(otherSet);
+    for (const value of otherSet.values()) {
+      if (!this.has(value)) {
+        result.add(value);
+      }
+    }
+    return result;
+  }
+
+  /** Returns true if every member is also in the other. */
+  isSubsetOf(other: Iterable<Iterable<KT>>): boolean {
+    const otherSet = this.toSetKeyedSet(other);
+    if (this.size > otherSet.size) {
+      return false;
+    }
+    for (const value of this.values()) {
+      if (!otherSet.has(value)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /** Returns true if every member of the other is also in this. */
+  isSupersetOf(other: Iterable<Iterable<KT>>): boolean {
+    for (const value of other) {
+      if (!this.has(value)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /** Returns true if no member is also in the other. */
+  isDisjointFrom(other: Iterable<Iterable<KT>>): boolean {
+    for (const value of other) {
+      if (this.has(value)) {
+        return false;
+      }
+    }
+    return true;
+  }
+}
+
+/** A multiset key: elements that may repeat, or a map from each element to its count. */
+export type MultisetKey<KT> = Iterable<KT> | ReadonlyMap<KT, number>;
+
+/** Options for a MultisetKeyedMap. */
+export interface MultisetKeyedMapOptions<KT> {
+  /**
+   * Maps each element to the value that identifies it. Elements with the same identity
+   *  are counted as the same element.
+   */
+  elementKey?: (element: KT) => unknown;
+}
+
+/** The canonical form of a multiset key: each subkey's first element and its count. */
+type MultisetCanonicalKey<KT> = Map<unknown, readonly [KT, number]>;
+
+/**
+ * A map where the keys are multisets. Any two keys with the same elements, each repeated
+ *  the same number of times, map to the same entry.
+ *
+ * Keys are given as arrays (or other iterables) with repeated elements, or as maps from
+ *  each element to its count. Keys are returned as count maps.
+ */
+export class MultisetKeyedMap<KT, V> implements Map<Map<KT, number>, V> {
+  private valueMap = new Map<MultisetCanonicalKey<KT>, V>();
+  /** Options the map was created with. */
+  private readonly options: MultisetKeyedMapOptions<KT>;
+  private subkeyToKeys = new Map<unknown, Set<MultisetCanonicalKey<KT>>>();
+  private subkeyHashes = new Map<unknown, number>();
+  private hashToKeys = new Map<number, Set<MultisetCanonicalKey<KT>>>();
+  /** Source of distinct subkey hashes. */
+  private subkeyCount = 0;
+
+  /** Creates a map, optionally populated from key-value pairs such as another map's entries. */
+  constructor(
+    entries?: Iterable<readonly [MultisetKey<KT>, V]> | null,
+    options: MultisetKeyedMapOptions<KT> = {},
+  ) {
+    this.options = options;
+    for (const [key, value] of entries ?? []) {
+      this.set(key, value);
+    }
+  }
 
   /** Number of entries pairs in the map. */
   get size() {
@@ -13,115 +2149,157 @@ export class SetKeyedMap<KT, V, K extends Set<KT> = Set<KT>>
   clear() {
     this.valueMap.clear();
     this.subkeyToKeys.clear();
+    this.subkeyHashes.clear();
+    this.hashToKeys.clear();
+  }
+
+  /** Counts the elements of a key by subkey, keeping the first element with each subkey. */
+  private countElements(key: MultisetKey<KT>): MultisetCanonicalKey<KT> {
+    const counts: MultisetCanonicalKey<KT> = new Map();
+    const add = (element: KT, count: number) => {
+      if (!Number.isInteger(count) || count < 0) {
+        throw new RangeError(
+          `Multiset element counts must be non-negative integers, got ${count}`,
+        );
+      }
+      if (!count) {
+        // An element counted zero times is not in the multiset
+        return;
+      }
+      const subkey = this.options.elementKey
+        ? this.options.elementKey(element)
+        : element;
+      const existing = counts.get(subkey);
+      counts.set(subkey, [
+        existing ? existing[0] : element,
+        (existing ? existing[1] : 0) + count,
+      ]);
+    };
+
+    if (key instanceof Map) {
+      for (const [element, count] of key as ReadonlyMap<KT, number>) {
+        add(element, count);
+      }
+    } else {
+      for (const element of key as Iterable<KT>) {
+        add(element, 1);
+      }
+    }
+    return counts;
   }
 
   /** Finds the canonical key, or false if not found. */
-  private getCannonicalKey(key: K): K | false {
+  private getCannonicalKey(
+    counts: MultisetCanonicalKey<KT>,
+  ): MultisetCanonicalKey<KT> | false {
     /**
-     * A key is a set of subkeys.
+     * As with SetKeyedMap, each indexed subkey has a hash. The hash of a key combines the
+     *  hash of each subkey with its count, without regard to their order.
      *
-     * The subkeyToKeys map has a list of canonical keys that contain each subkey.
-     *
-     * We search subkeyToKeys for a key that contains all subkeys, and no more. That
-     *  is the canonical key.
-     *
-     * If that key isn't found, then it isn't in the map.
+     * We search the keys with that hash for one with the same count of every subkey, and
+     *  no more subkeys. That is the canonical key.
      */
-
-    if (this.valueMap.has(key)) {
-      // If the key is already in the map, then it is the canonical key
-      return key;
-    }
-
-    // Convert the keys to its subkeys
-    const subkeys = Array.from(key);
-
-    // Select all the potential canonical keys which have the right number of subkeys
-    const potentialCanonicalKeys = subkeys
-      .map((subkey) => this.subkeyToKeys.get(subkey))
-      .map((keys) => {
-        return keys?.filter((key) => key.size === subkeys.length) ?? [];
-      });
-
-    // Order the array so that the subkey with the fewest potential canonical keys is first,
-    //  this might speed up the search.
-    potentialCanonicalKeys.sort((a, b) => (a?.length ?? 0) - (b?.length ?? 0));
-
-    // Ensure that there is a chance of finding a key
-    const firstSubkeys = potentialCanonicalKeys[0];
-    if (!firstSubkeys) {
-      // This will only happen if the key has no members
-      // TODO: should we support the empty set?
+    const hash = this.getKeyHash(counts);
+    if (hash === undefined) {
+      // If any subkey is not indexed, then no canonical key contains it
       return false;
     }
 
-    // If a key is found in *every* potential subkey list, then it is the canonical key
-    for (const key of firstSubkeys) {
-      if (potentialCanonicalKeys.every((keys) => keys.includes(key))) {
-        return key;
+    for (const candidate of this.hashToKeys.get(hash) ?? []) {
+      if (
+        candidate.size === counts.size &&
+        Array.from(counts).every(
+          ([subkey, [, count]]) => candidate.get(subkey)?.[1] === count,
+        )
+      ) {
+        return candidate;
       }
     }
 
-    // If no key is found in every list, then the key is not in the map
+    // If no key in the set matches, then the key is not in the map
     return false;
   }
 
-  /** Creates a new canonical key from an existing set. */
-  private createCanonicalKey(from: K): K {
-    return new Set(Array.from(from)) as K;
+  /** Hashes the key from its subkey hashes and counts, or undefined if not indexed. */
+  private getKeyHash(counts: MultisetCanonicalKey<KT>): number | undefined {
+    // Addition is order independent, so equivalent multisets always have the same sum
+    let sum = 0;
+    for (const [subkey, [, count]] of counts) {
+      const subkeyHash = this.subkeyHashes.get(subkey);
+      if (subkeyHash === undefined) {
+        return undefined;
+      }
+      sum = (sum + mixHash(subkeyHash ^ Math.imul(count, HASH_MULTIPLIER))) | 0;
+    }
+    return mixHash(sum ^ Math.imul(counts.size, HASH_MULTIPLIER));
   }
+
   /** Creates a new user-facing key copy. */
-  private createUserFacingKey(from: K): K {
-    return new Set(Array.from(from)) as K;
+  private createUserFacingKey(from: MultisetCanonicalKey<KT>): Map<KT, number> {
+    return new Map(from.values());
   }
 
-  /** Associates a value with this key in this set. */
-  set(key: K, value: V): this {
-    const existingCanonicalKey = this.getCannonicalKey(key);
+  /** Associates a value with this multiset key. */
+  set(key: MultisetKey<KT>, value: V): this {
+    const counts = this.countElements(key);
+    const existingCanonicalKey = this.getCannonicalKey(counts);
 
     if (existingCanonicalKey) {
       // Update existing key
       this.valueMap.set(existingCanonicalKey, value);
     } else {
-      // Create new key and populate subkeyToKeys index
-      const canonicalKey = this.createCanonicalKey(key);
+      // The counted elements are not shared with the caller, so become the canonical key
+      const canonicalKey = counts;
       this.valueMap.set(canonicalKey, value);
 
-      // Update subkeyToKeys index for each subkey in the canonical key
-      for (const subkey of canonicalKey) {
-        const keyList = this.subkeyToKeys.get(subkey) || [];
-        keyList.push(canonicalKey);
-        this.subkeyToKeys.set(subkey, keyList);
+      // Update subkeyToKeys index for each subkey in the canonical key, hashing any
+      //  subkey that is new to the index
+      for (const subkey of canonicalKey.keys()) {
+        const keySet = this.subkeyToKeys.get(subkey) || new Set();
+        keySet.add(canonicalKey);
+        this.subkeyToKeys.set(subkey, keySet);
+        if (!this.subkeyHashes.has(subkey)) {
+          this.subkeyHashes.set(subkey, mixHash(++this.subkeyCount));
+        }
       }
+
+      // Update hashToKeys index now that every subkey has a hash
+      const hash = this.getKeyHash(canonicalKey) as number;
+      const hashSet = this.hashToKeys.get(hash) || new Set();
+      hashSet.add(canonicalKey);
+      this.hashToKeys.set(hash, hashSet);
     }
 
     return this;
   }
 
   /** Removes the entry. Returns true if an entry was removed. */
-  delete(key: K) {
-    const canonicalKey = this.getCannonicalKey(key);
+  delete(key: MultisetKey<KT>): boolean {
+    const canonicalKey = this.getCannonicalKey(this.countElements(key));
     if (!canonicalKey) {
       // If there is no canonical key, then the key is not in the map :. false
       return false;
     }
-    // As the key is present, each subkey must have a reference to it in the subkeyToKeys map
-    //  and this reference must be removed.
-    for (const subkey of canonicalKey) {
-      // Retrieve and replace the list of keys that contain this subkey, removing the canonical key
-      const keylist = this.subkeyToKeys.get(subkey);
-      if (!keylist) {
+    // The hash must be taken while the subkeys are still indexed, and the canonical key
+    //  removed from its set.
+    const hash = this.getKeyHash(canonicalKey) as number;
+    const hashSet = this.hashToKeys.get(hash);
+    hashSet?.delete(canonicalKey);
+    if (!hashSet?.size) {
+      this.hashToKeys.delete(hash);
+    }
+    // Each subkey has a reference to the canonical key in subkeyToKeys, which must be removed
+    for (const subkey of canonicalKey.keys()) {
+      const keySet = this.subkeyToKeys.get(subkey);
+      if (!keySet) {
         // This should not happen, as the canonical key did exist. This check is for TS.
         continue;
       }
-      // Remove the canonical key from the list
-      const newkeylist = keylist.filter((k) => k !== canonicalKey);
-      if (newkeylist.length) {
-        // Update the list
-        this.subkeyToKeys.set(subkey, newkeylist);
-      } else {
-        // If the list is empty, then remove the subkey from the map
+      keySet.delete(canonicalKey);
+      if (!keySet.size) {
+        // If the set is empty, then remove the subkey from the map and forget its hash
         this.subkeyToKeys.delete(subkey);
+        this.subkeyHashes.delete(subkey);
       }
     }
     // Remove the canonical key from the map
@@ -131,9 +2309,8 @@ export class SetKeyedMap<KT, V, K extends Set<KT> = Set<KT>>
   }
 
   /** Returns the value, or undefined if not found. */
-  get(key: K): V | undefined {
-    // Get the canonical key representation for this key
-    const canonicalKey = this.getCannonicalKey(key);
+  get(key: MultisetKey<KT>): V | undefined {
+    const canonicalKey = this.getCannonicalKey(this.countElements(key));
     if (!canonicalKey) {
       // If there is no canonical key, then the key is not in the map
       return undefined;
@@ -142,9 +2319,8 @@ export class SetKeyedMap<KT, V, K extends Set<KT> = Set<KT>>
   }
 
   /** Returns true if an entry exists. */
-  has(key: K): boolean {
-    // Get the canonical key representation for this key
-    const canonicalKey = this.getCannonicalKey(key);
+  has(key: MultisetKey<KT>): boolean {
+    const canonicalKey = this.getCannonicalKey(this.countElements(key));
     if (!canonicalKey) {
       // If there is no canonical key, then the key is not in the map
       return false;
@@ -152,8 +2328,8 @@ export class SetKeyedMap<KT, V, K extends Set<KT> = Set<KT>>
     return this.valueMap.has(canonicalKey);
   }
 
-  /** Iterator over all set keys. */
-  *keys(): MapIterator<K> {
+  /** Iterator over all keys, as maps from each element to its count. */
+  *keys(): MapIterator<Map<KT, number>> {
     for (const key of this.valueMap.keys()) {
       yield this.createUserFacingKey(key);
     }
@@ -165,17 +2341,17 @@ export class SetKeyedMap<KT, V, K extends Set<KT> = Set<KT>>
   }
 
   /** Iterator over all key-value pairs. */
-  *entries(): MapIterator<[K, V]> {
+  *entries(): MapIterator<[Map<KT, number>, V]> {
     for (const [key, value] of this.valueMap.entries()) {
       yield [this.createUserFacingKey(key), value];
     }
   }
 
-  [Symbol.iterator](): MapIterator<[K, V]> {
+  [Symbol.iterator](): MapIterator<[Map<KT, number>, V]> {
     return this.entries();
   }
 
-  [Symbol.toStringTag] = "SetKeyedMap";
+  [Symbol.toStringTag] = "MultisetKeyedMap";
 
   [Symbol.dispose](): void {
     this.clear();
@@ -183,7 +2359,11 @@ export class SetKeyedMap<KT, V, K extends Set<KT> = Set<KT>>
 
   /** Executes a callback for each entry. */
   forEach(
-    callbackfn: (value: V, key: K, map: SetKeyedMap<KT, V, K>) => void,
+    callbackfn: (
+      value: V,
+      key: Map<KT, number>,
+      map: MultisetKeyedMap<KT, V>,
+    ) => void,
     thisArg?: any,
   ): void {
     for (const [key, value] of this.entries()) {
@@ -193,7 +2373,11 @@ export class SetKeyedMap<KT, V, K extends Set<KT> = Set<KT>>
 
   /** Tests whether all entries pass the provided predicate. */
   every(
-    callbackfn: (value: V, key: K, map: SetKeyedMap<KT, V, K>) => boolean,
+    callbackfn: (
+      value: V,
+      key: Map<KT, number>,
+      map: MultisetKeyedMap<KT, V>,
+    ) => boolean,
     thisArg?: any,
   ): boolean {
     for (const [key, value] of this.entries()) {
@@ -204,12 +2388,16 @@ export class SetKeyedMap<KT, V, K extends Set<KT> = Set<KT>>
     return true;
   }
 
-  /** Returns a new SetKeyedMap with entries that pass the predicate. */
+  /** Returns a new MultisetKeyedMap with entries that pass the predicate. */
   filter(
-    callbackfn: (value: V, key: K, map: SetKeyedMap<KT, V, K>) => boolean,
+    callbackfn: (
+      value: V,
+      key: Map<KT, number>,
+      map: MultisetKeyedMap<KT, V>,
+    ) => boolean,
     thisArg?: any,
-  ): SetKeyedMap<KT, V, K> {
-    const result = new SetKeyedMap<KT, V, K>();
+  ): MultisetKeyedMap<KT, V> {
+    const result = new MultisetKeyedMap<KT, V>(null, this.options);
     for (const [key, value] of this.entries()) {
       if (callbackfn.call(thisArg, value, key, this)) {
         result.set(key, value);
@@ -220,7 +2408,11 @@ export class SetKeyedMap<KT, V, K extends Set<KT> = Set<KT>>
 
   /** Tests whether at least one entry passes the predicate. */
   some(
-    callbackfn: (value: V, key: K, map: SetKeyedMap<KT, V, K>) => boolean,
+    callbackfn: (
+      value: V,
+      key: Map<KT, number>,
+      map: MultisetKeyedMap<KT, V>,
+    ) => boolean,
     thisArg?: any,
   ): boolean {
     for (const [key, value] of this.entries()) {
@@ -233,9 +2425,13 @@ export class SetKeyedMap<KT, V, K extends Set<KT> = Set<KT>>
 
   /** Returns the first entry that matches the predicate. */
   find(
-    callbackfn: (value: V, key: K, map: SetKeyedMap<KT, V, K>) => boolean,
+    callbackfn: (
+      value: V,
+      key: Map<KT, number>,
+      map: MultisetKeyedMap<KT, V>,
+    ) => boolean,
     thisArg?: any,
-  ): [K, V] | undefined {
+  ): [Map<KT, number>, V] | undefined {
     for (const [key, value] of this.entries()) {
       if (callbackfn.call(thisArg, value, key, this)) {
         return [key, value];
@@ -256,7 +2452,11 @@ export class SetKeyedMap<KT, V, K extends Set<KT> = Set<KT>>
 
   /** Maps entries to an array of transformed values. */
   map<T>(
-    callbackfn: (value: V, key: K, map: SetKeyedMap<KT, V, K>) => T,
+    callbackfn: (
+      value: V,
+      key: Map<KT, number>,
+      map: MultisetKeyedMap<KT, V>,
+    ) => T,
     thisArg?: any,
   ): T[] {
     const result: T[] = [];
@@ -268,7 +2468,11 @@ export class SetKeyedMap<KT, V, K extends Set<KT> = Set<KT>>
 
   /** Maps entries to arrays and flattens the result. */
   flatMap<T>(
-    callbackfn: (value: V, key: K, map: SetKeyedMap<KT, V, K>) => T[],
+    callbackfn: (
+      value: V,
+      key: Map<KT, number>,
+      map: MultisetKeyedMap<KT, V>,
+    ) => T[],
     thisArg?: any,
   ): T[] {
     const result: T[] = [];
@@ -278,12 +2482,16 @@ export class SetKeyedMap<KT, V, K extends Set<KT> = Set<KT>>
     return result;
   }
 
-  /** Returns a new SetKeyedMap with transformed values. */
+  /** Returns a new MultisetKeyedMap with transformed values. */
   mapOver<T>(
-    callbackfn: (value: V, key: K, map: SetKeyedMap<KT, V, K>) => T,
+    callbackfn: (
+      value: V,
+      key: Map<KT, number>,
+      map: MultisetKeyedMap<KT, V>,
+    ) => T,
     thisArg?: any,
-  ): SetKeyedMap<KT, T, K> {
-    const result = new SetKeyedMap<KT, T, K>();
+  ): MultisetKeyedMap<KT, T> {
+    const result = new MultisetKeyedMap<KT, T>(null, this.options);
     for (const [key, value] of this.entries()) {
       result.set(key, callbackfn.call(thisArg, value, key, this));
     }
@@ -295,8 +2503,8 @@ export class SetKeyedMap<KT, V, K extends Set<KT> = Set<KT>>
     callbackfn: (
       previousValue: T,
       value: V,
-      key: K,
-      map: SetKeyedMap<KT, V, K>,
+      key: Map<KT, number>,
+      map: MultisetKeyedMap<KT, V>,
     ) => T,
     initialValue: T,
   ): T {
@@ -312,13 +2520,16 @@ export class SetKeyedMap<KT, V, K extends Set<KT> = Set<KT>>
     callbackfn: (
       previousValue: T,
       value: V,
-      key: K,
-      map: SetKeyedMap<KT, V, K>,
+      key: Map<KT, number>,
+      map: MultisetKeyedMap<KT, V>,
     ) => T,
     initialValue: T,
   ): T {
+    // Maps can only be walked forwards, so the entries are captured up front
+    const entries = Array.from(this.entries());
     let accumulator = initialValue;
-    for (const [key, value] of this.entries()) {
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const [key, value] = entries[i];
       accumulator = callbackfn(accumulator, value, key, this);
     }
     return accumulator;
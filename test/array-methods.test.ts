@@ -116,4 +116,91 @@ describe("SetKeyedMap - Array-like methods", () => {
     assert.ok(result.includes("A"));
     assert.ok(result.includes("B"));
   });
+
+  test("should reduceRight from last inserted to first", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(new Set(["a"]), "A");
+    map.set(new Set(["b"]), "B");
+    map.set(new Set(["c"]), "C");
+
+    assert.equal(
+      map.reduceRight((acc, v) => acc + v, ""),
+      "CBA",
+    );
+    assert.equal(
+      map.reduce((acc, v) => acc + v, ""),
+      "ABC",
+    );
+  });
+
+  test("should keep the first insertion position when updating", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(new Set(["a"]), "A");
+    map.set(new Set(["b"]), "B");
+    map.set(new Set(["a"]), "A2");
+
+    assert.equal(
+      map.reduceRight((acc, v) => acc + v, ""),
+      "BA2",
+    );
+  });
+
+  test("should iterate in reverse insertion order", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(new Set(["a"]), 1);
+    map.set(new Set(["b", "c"]), 2);
+    map.set(new Set(), 3);
+
+    assert.deepEqual(Array.from(map.valuesReversed()), [3, 2, 1]);
+    assert.deepEqual(Array.from(map.keysReversed()), [
+      new Set(),
+      new Set(["b", "c"]),
+      new Set(["a"]),
+    ]);
+    assert.deepEqual(Array.from(map.entriesReversed()), [
+      [new Set(), 3],
+      [new Set(["b", "c"]), 2],
+      [new Set(["a"]), 1],
+    ]);
+  });
+
+  test("should skip entries deleted during reverse iteration", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(new Set(["a"]), 1);
+    map.set(new Set(["b"]), 2);
+    map.set(new Set(["c"]), 3);
+
+    const values: number[] = [];
+    for (const value of map.valuesReversed()) {
+      values.push(value);
+      map.delete(["b"]);
+    }
+    assert.deepEqual(values, [3, 1]);
+  });
+
+  test("should access entries by position", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(new Set(["a"]), 1);
+    map.set(new Set(["b"]), 2);
+    map.set(new Set(["c"]), 3);
+
+    assert.deepEqual(map.at(0), [new Set(["a"]), 1]);
+    assert.deepEqual(map.at(2), [new Set(["c"]), 3]);
+    assert.deepEqual(map.at(-1), [new Set(["c"]), 3]);
+    assert.deepEqual(map.at(-3), [new Set(["a"]), 1]);
+    assert.deepEqual(map.at(1.5), [new Set(["b"]), 2]);
+    assert.equal(map.at(3), undefined);
+    assert.equal(map.at(-4), undefined);
+
+    assert.deepEqual(map.first(), [new Set(["a"]), 1]);
+    assert.deepEqual(map.last(), [new Set(["c"]), 3]);
+  });
+
+  test("first and last should be undefined when empty", () => {
+    const map = new SetKeyedMap<string, number>();
+
+    assert.equal(map.first(), undefined);
+    assert.equal(map.last(), undefined);
+    assert.equal(map.at(0), undefined);
+  });
 });
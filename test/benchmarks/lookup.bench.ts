@@ -0,0 +1,92 @@
+import { performance } from "node:perf_hooks";
+import { SetKeyedMap } from "../../index.ts";
+
+/**
+ * Compares canonical key lookup against the list-intersection lookup that
+ *  SetKeyedMap used before keys were hashed.
+ *
+ * Every key contains the same few popular tags plus one unique tag, which is the
+ *  worst case for list intersection: each popular tag lists every key.
+ *
+ * Run with `yarn bench`.
+ */
+
+const POPULAR_TAGS = ["popular-1", "popular-2", "popular-3"];
+const SIZES = [1_000, 5_000, 20_000];
+const LOOKUPS = 1_000;
+
+/** The lookup strategy SetKeyedMap used before keys were hashed. */
+class ListIntersectionIndex<KT> {
+  private keys = new Set<Set<KT>>();
+  private subkeyToKeys = new Map<KT, Set<KT>[]>();
+
+  set(key: Set<KT>) {
+    if (this.get(key)) {
+      return;
+    }
+    const canonicalKey = new Set(key);
+    this.keys.add(canonicalKey);
+    for (const subkey of canonicalKey) {
+      const keyList = this.subkeyToKeys.get(subkey) || [];
+      keyList.push(canonicalKey);
+      this.subkeyToKeys.set(subkey, keyList);
+    }
+  }
+
+  get(key: Set<KT>): Set<KT> | false {
+    if (this.keys.has(key)) {
+      return key;
+    }
+    const subkeys = Array.from(key);
+    const potentialCanonicalKeys = subkeys
+      .map((subkey) => this.subkeyToKeys.get(subkey))
+      .map((keys) => keys?.filter((key) => key.size === subkeys.length) ?? []);
+    potentialCanonicalKeys.sort((a, b) => a.length - b.length);
+    for (const key of potentialCanonicalKeys[0] ?? []) {
+      if (potentialCanonicalKeys.every((keys) => keys.includes(key))) {
+        return key;
+      }
+    }
+    return false;
+  }
+}
+
+function createKey(i: number): Set<string> {
+  return new Set([...POPULAR_TAGS, `unique-${i}`]);
+}
+
+/** Returns the mean time per call in microseconds. */
+function time(calls: number, fn: (i: number) => void): number {
+  const start = performance.now();
+  for (let i = 0; i < calls; i++) {
+    fn(i);
+  }
+  return Number((((performance.now() - start) * 1000) / calls).toFixed(2));
+}
+
+const results = [];
+for (const size of SIZES) {
+  const map = new SetKeyedMap<string, number>();
+  const reference = new ListIntersectionIndex<string>();
+  for (let i = 0; i < size; i++) {
+    map.set(createKey(i), i);
+    reference.set(createKey(i));
+  }
+
+  // Lookups use fresh sets, so the identity shortcut never applies
+  const lookupKeys = Array.from({ length: LOOKUPS }, (_, i) =>
+    createKey((i * 7919) % size),
+  );
+
+  const lookupKey = (i: number) => lookupKeys[i % LOOKUPS];
+  results.push({
+    keys: size,
+    "SetKeyedMap.get (µs)": time(LOOKUPS, (i) => map.get(lookupKey(i))),
+    "SetKeyedMap.has (µs)": time(LOOKUPS, (i) => map.has(lookupKey(i))),
+    "SetKeyedMap.set (µs)": time(LOOKUPS, (i) => map.set(lookupKey(i), i)),
+    "list intersection (µs)": time(LOOKUPS, (i) => reference.get(lookupKey(i))),
+    "SetKeyedMap.delete (µs)": time(LOOKUPS, (i) => map.delete(lookupKey(i))),
+  });
+}
+
+console.table(results);
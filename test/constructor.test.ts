@@ -0,0 +1,99 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { SetKeyedMap } from "../index.ts";
+
+describe("SetKeyedMap - Construction from entries", () => {
+  test("should create an empty map without entries", () => {
+    assert.equal(new SetKeyedMap<string, number>(null).size, 0);
+    assert.equal(new SetKeyedMap<string, number>(undefined).size, 0);
+  });
+
+  test("should populate from an array of pairs", () => {
+    const map = new SetKeyedMap<string, number>([
+      [new Set(["a", "b"]), 1],
+      [["c"], 2],
+    ]);
+
+    assert.equal(map.size, 2);
+    assert.equal(map.get(new Set(["b", "a"])), 1);
+    assert.equal(map.get(new Set(["c"])), 2);
+  });
+
+  test("should merge equivalent keys, keeping the last value", () => {
+    const map = new SetKeyedMap<string, number>([
+      [["a", "b"], 1],
+      [["b", "a"], 2],
+      [["a", "a", "b"], 3],
+    ]);
+
+    assert.equal(map.size, 1);
+    assert.equal(map.get(new Set(["a", "b"])), 3);
+  });
+
+  test("should copy another SetKeyedMap", () => {
+    const original = new SetKeyedMap<string, number>();
+    original.set(new Set(["a", "b"]), 1);
+    original.set(new Set(), 0);
+
+    const copy = new SetKeyedMap(original);
+    assert.equal(copy.size, 2);
+    assert.equal(copy.get(new Set(["b", "a"])), 1);
+    assert.equal(copy.get(new Set()), 0);
+
+    copy.set(new Set(["c"]), 2);
+    assert.equal(original.has(new Set(["c"])), false);
+  });
+
+  test("should copy a Map with Set keys", () => {
+    const original = new Map<Set<number>, string>([
+      [new Set([1, 2]), "one-two"],
+      [new Set([2, 1]), "two-one"],
+    ]);
+
+    const map = new SetKeyedMap(original);
+    assert.equal(map.size, 1);
+    assert.equal(map.get(new Set([1, 2])), "two-one");
+  });
+
+  test("should accept a generator of pairs", () => {
+    function* pairs(): Generator<[number[], number]> {
+      for (let i = 0; i < 3; i++) {
+        yield [[i, i + 1], i];
+      }
+    }
+
+    const map = new SetKeyedMap(pairs());
+    assert.equal(map.size, 3);
+    assert.equal(map.get(new Set([2, 1])), 1);
+  });
+
+  test("from() should populate from pairs", () => {
+    const map = SetKeyedMap.from([
+      [["a"], 1],
+      [["b", "c"], 2],
+    ]);
+
+    assert.ok(map instanceof SetKeyedMap);
+    assert.equal(map.size, 2);
+    assert.equal(map.get(new Set(["c", "b"])), 2);
+  });
+
+  test("from() should transform values with the mapping function", () => {
+    const original = new SetKeyedMap<string, number>();
+    original.set(new Set(["a"]), 1);
+    original.set(new Set(["b", "c"]), 2);
+
+    const calls: [number, Set<string>, number][] = [];
+    const map = SetKeyedMap.from(original, (value, key, index) => {
+      calls.push([value, key, index]);
+      return `${value}:${key.size}`;
+    });
+
+    assert.equal(map.get(new Set(["a"])), "1:1");
+    assert.equal(map.get(new Set(["c", "b"])), "2:2");
+    assert.deepEqual(calls, [
+      [1, new Set(["a"]), 0],
+      [2, new Set(["b", "c"]), 1],
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { SetKeyedMap } from "../index.ts";
+
+describe("SetKeyedMap - Deleting by element", () => {
+  test("keysContaining() should yield keys with the element", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(["a", "b"], "ab");
+    map.set(["a"], "a");
+    map.set(["b", "c"], "bc");
+    map.set(["d"], "d");
+    map.set([], "empty");
+
+    assert.deepEqual(Array.from(map.keysContaining("a")), [
+      new Set(["a", "b"]),
+      new Set(["a"]),
+    ]);
+    assert.deepEqual(Array.from(map.keysContaining("z")), []);
+  });
+
+  test("keysContaining() should yield copies", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(["a", "b"], "ab");
+    map.set(["a"], "a");
+    map.set(["b", "c"], "bc");
+    map.set(["d"], "d");
+    map.set([], "empty");
+
+    const [key] = Array.from(map.keysContaining("d"));
+    key.add("e");
+    assert.equal(map.get(["d"]), "d");
+    assert.equal(map.has(["d", "e"]), false);
+  });
+
+  test("deleteContaining() should remove keys with the element", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(["a", "b"], "ab");
+    map.set(["a"], "a");
+    map.set(["b", "c"], "bc");
+    map.set(["d"], "d");
+    map.set([], "empty");
+
+    assert.equal(map.deleteContaining("b"), 2);
+    assert.deepEqual(Array.from(map.values()), ["a", "d", "empty"]);
+    assert.equal(map.deleteContaining("b"), 0);
+    assert.deepEqual(Array.from(map.keysContaining("c")), []);
+    assert.equal(map["subkeyToKeys"].has("c"), false);
+  });
+
+  test("deleteContainingAny() should remove each key once", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(["a", "b"], "ab");
+    map.set(["a"], "a");
+    map.set(["b", "c"], "bc");
+    map.set(["d"], "d");
+    map.set([], "empty");
+
+    assert.equal(map.deleteContainingAny(["a", "b", "z"]), 3);
+    assert.deepEqual(Array.from(map.values()), ["d", "empty"]);
+    assert.equal(map.deleteContainingAny([]), 0);
+    assert.equal(map.size, 2);
+  });
+
+  test("deleted keys can be set again", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(["a", "b"], "ab");
+    map.set(["a"], "a");
+    map.set(["b", "c"], "bc");
+    map.set(["d"], "d");
+    map.set([], "empty");
+    map.deleteContaining("a");
+    map.set(["b", "a"], "ba");
+
+    assert.equal(map.get(["a", "b"]), "ba");
+    assert.deepEqual(
+      Array.from(map.supersetsOf(["b"]), ([, value]) => value),
+      ["bc", "ba"],
+    );
+  });
+
+  test("should use elementKey to identify the element", () => {
+    const map = new SetKeyedMap<{ id: number }, string>(null, {
+      elementKey: (element) => element.id,
+    });
+    map.set([{ id: 1 }, { id: 2 }], "one-two");
+    map.set([{ id: 2 }], "two");
+
+    assert.equal(map.deleteContaining({ id: 1 }), 1);
+    assert.deepEqual(Array.from(map.values()), ["two"]);
+  });
+});
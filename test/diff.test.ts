@@ -0,0 +1,126 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { SetKeyedMap } from "../index.ts";
+
+describe("SetKeyedMap - diff and applyPatch", () => {
+  test("diff() should find added, removed and changed entries", () => {
+    const before = new SetKeyedMap<string, number>([
+      [["a", "b"], 1],
+      [["c"], 2],
+      [["d"], 3],
+    ]);
+    const after = new SetKeyedMap<string, number>([
+      [["b", "a"], 1],
+      [["c"], 20],
+      [["e"], 4],
+    ]);
+
+    assert.deepEqual(SetKeyedMap.diff(before, after), {
+      added: [[["e"], 4]],
+      removed: [["d"]],
+      changed: [[["c"], 20]],
+    });
+  });
+
+  test("diff() of equal maps should be empty", () => {
+    const before = new SetKeyedMap<string, number>([
+      [["a", "b"], 1],
+      [["c"], 2],
+      [["d"], 3],
+    ]);
+    const copy = new SetKeyedMap(before);
+
+    assert.deepEqual(SetKeyedMap.diff(before, copy), {
+      added: [],
+      removed: [],
+      changed: [],
+    });
+  });
+
+  test("diff() should compare values with the callback", () => {
+    const a = new SetKeyedMap<string, { n: number }>([[["a"], { n: 1 }]]);
+    const b = new SetKeyedMap<string, { n: number }>([[["a"], { n: 1 }]]);
+
+    assert.equal(SetKeyedMap.diff(a, b).changed.length, 1);
+    assert.equal(
+      SetKeyedMap.diff(a, b, (x, y) => x.n === y.n).changed.length,
+      0,
+    );
+  });
+
+  test("applyPatch() should turn one map into the other", () => {
+    const before = new SetKeyedMap<string, number>([
+      [["a", "b"], 1],
+      [["c"], 2],
+      [["d"], 3],
+    ]);
+    const after = new SetKeyedMap<string, number>([
+      [["b", "a"], 1],
+      [["c"], 20],
+      [["e"], 4],
+    ]);
+
+    before.applyPatch(SetKeyedMap.diff(before, after));
+    assert.deepEqual(SetKeyedMap.diff(before, after), {
+      added: [],
+      removed: [],
+      changed: [],
+    });
+    assert.equal(before.size, 3);
+    assert.equal(before.get(["c"]), 20);
+  });
+
+  test("patches should survive JSON", () => {
+    const before = new SetKeyedMap<string, number>([
+      [["a", "b"], 1],
+      [["c"], 2],
+      [["d"], 3],
+    ]);
+    const after = new SetKeyedMap<string, number>([
+      [["b", "a"], 1],
+      [["c"], 20],
+      [["e"], 4],
+    ]);
+    const replica = new SetKeyedMap(before);
+
+    const patch = JSON.parse(JSON.stringify(SetKeyedMap.diff(before, after)));
+    replica.applyPatch(patch);
+    assert.deepEqual(Array.from(replica.values()).sort(), [1, 20, 4].sort());
+    assert.equal(replica.has(["d"]), false);
+  });
+
+  test("applyPatch() should notify listeners once", () => {
+    const before = new SetKeyedMap<string, number>([
+      [["a", "b"], 1],
+      [["c"], 2],
+      [["d"], 3],
+    ]);
+    const after = new SetKeyedMap<string, number>([
+      [["b", "a"], 1],
+      [["c"], 20],
+      [["e"], 4],
+    ]);
+    const notifications: string[][] = [];
+    before.subscribe((events) =>
+      notifications.push(events.map(({ type }) => type)),
+    );
+
+    before.applyPatch(SetKeyedMap.diff(before, after));
+    assert.deepEqual(notifications, [["delete", "set", "update"]]);
+  });
+
+  test("diff() should not count as using entries", () => {
+    const a = new SetKeyedMap<string, number>(
+      [
+        [["a"], 1],
+        [["b"], 2],
+      ],
+      { maxSize: 2 },
+    );
+    const b = new SetKeyedMap<string, number>([[["a"], 1]]);
+
+    SetKeyedMap.diff(a, b);
+    a.set(["c"], 3);
+    assert.deepEqual(Array.from(a.values()), [2, 3]);
+  });
+});
@@ -92,4 +92,25 @@ describe("SetKeyedMap - Complex scenarios", () => {
     assert.equal(map.get(new Set([2, 1])), "one-two");
     assert.equal(map.get(new Set([3, 1, 2])), "one-two-three");
   });
+
+  test("should distinguish many keys sharing common elements", () => {
+    const map = new SetKeyedMap<number, number>();
+
+    for (let i = 0; i < 100; i++) {
+      for (let j = i + 1; j < 100; j++) {
+        map.set(new Set([-1, i, j]), i * 100 + j);
+      }
+    }
+
+    assert.equal(map.size, 4950);
+    assert.equal(map.get(new Set([42, -1, 7])), 742);
+    assert.equal(map.get(new Set([1, 4, -1])), 104);
+    assert.equal(map.get(new Set([2, 3, -1])), 203);
+    assert.equal(map.has(new Set([1, 4])), false);
+    assert.equal(map.has(new Set([-1, 1, 4, 5])), false);
+
+    assert.equal(map.delete(new Set([4, 1, -1])), true);
+    assert.equal(map.has(new Set([1, 4, -1])), false);
+    assert.equal(map.get(new Set([2, 3, -1])), 203);
+  });
 });
@@ -0,0 +1,147 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { SetKeyedMap } from "../index.ts";
+
+interface Principal {
+  id: number;
+  kind: string;
+}
+
+const principalKey = (principal: Principal) =>
+  `${principal.kind}:${principal.id}`;
+
+describe("SetKeyedMap - Element keys", () => {
+  test("should match fresh instances with the same identity", () => {
+    const map = new SetKeyedMap<Principal, string>(null, {
+      elementKey: principalKey,
+    });
+    map.set(
+      [
+        { id: 3, kind: "user" },
+        { id: 1, kind: "group" },
+      ],
+      "allowed",
+    );
+
+    const fromJson: Principal[] = JSON.parse(
+      '[{"id":1,"kind":"group"},{"id":3,"kind":"user"}]',
+    );
+    assert.equal(map.get(fromJson), "allowed");
+    assert.equal(map.has(new Set(fromJson)), true);
+    assert.equal(map.has([{ id: 3, kind: "user" }]), false);
+  });
+
+  test("should not match fresh instances without an element key", () => {
+    const map = new SetKeyedMap<Principal, string>();
+    map.set([{ id: 3, kind: "user" }], "allowed");
+
+    assert.equal(map.has([{ id: 3, kind: "user" }]), false);
+  });
+
+  test("should treat elements with the same identity as duplicates", () => {
+    const map = new SetKeyedMap<Principal, number>(null, {
+      elementKey: principalKey,
+    });
+    map.set(
+      [
+        { id: 3, kind: "user" },
+        { id: 3, kind: "user" },
+      ],
+      1,
+    );
+
+    assert.equal(map.size, 1);
+    assert.equal(map.get([{ id: 3, kind: "user" }]), 1);
+
+    const [key] = Array.from(map.keys());
+    assert.equal(key.size, 1);
+  });
+
+  test("should update and delete through equivalent instances", () => {
+    const map = new SetKeyedMap<Principal, number>(null, {
+      elementKey: principalKey,
+    });
+    map.set([{ id: 1, kind: "user" }], 1);
+    map.set([{ id: 1, kind: "user" }], 2);
+
+    assert.equal(map.size, 1);
+    assert.equal(map.get([{ id: 1, kind: "user" }]), 2);
+    assert.equal(map.delete([{ id: 1, kind: "user" }]), true);
+    assert.equal(map.size, 0);
+    assert.equal(map["subkeyToKeys"].size, 0);
+  });
+
+  test("should return the original elements", () => {
+    const original = { id: 3, kind: "user" };
+    const map = new SetKeyedMap<Principal, number>(null, {
+      elementKey: principalKey,
+    });
+    map.set([original], 1);
+    map.set([{ id: 3, kind: "user" }], 2);
+
+    const [[key, value]] = Array.from(map.entries());
+    assert.equal(Array.from(key)[0], original);
+    assert.equal(Array.from(map.keys())[0].has(original), true);
+    assert.equal(value, 2);
+  });
+
+  test("queries should use element identity", () => {
+    const map = new SetKeyedMap<Principal, string>(null, {
+      elementKey: principalKey,
+    });
+    map.set([{ id: 1, kind: "user" }], "one");
+    map.set(
+      [
+        { id: 1, kind: "user" },
+        { id: 2, kind: "user" },
+      ],
+      "one-two",
+    );
+
+    const values = (entries: Iterable<[Set<Principal>, string]>) =>
+      Array.from(entries, ([, value]) => value).sort();
+    assert.deepEqual(values(map.supersetsOf([{ id: 1, kind: "user" }])), [
+      "one",
+      "one-two",
+    ]);
+    assert.deepEqual(
+      values(
+        map.subsetsOf([
+          { id: 1, kind: "user" },
+          { id: 3, kind: "user" },
+        ]),
+      ),
+      ["one"],
+    );
+    assert.deepEqual(values(map.intersecting([{ id: 2, kind: "user" }])), [
+      "one-two",
+    ]);
+  });
+
+  test("derived maps should keep the element key", () => {
+    const map = new SetKeyedMap<Principal, number>(null, {
+      elementKey: principalKey,
+    });
+    map.set([{ id: 1, kind: "user" }], 1);
+    map.set([{ id: 2, kind: "user" }], 2);
+
+    const filtered = map.filter((value) => value > 1);
+    assert.equal(filtered.get([{ id: 2, kind: "user" }]), 2);
+
+    const mapped = map.mapOver((value) => value * 10);
+    assert.equal(mapped.get([{ id: 1, kind: "user" }]), 10);
+  });
+
+  test("should populate initial entries using the element key", () => {
+    const map = new SetKeyedMap<Principal, number>(
+      [
+        [[{ id: 1, kind: "user" }], 1],
+        [[{ id: 1, kind: "user" }], 2],
+      ],
+      { elementKey: principalKey },
+    );
+
+    assert.equal(map.size, 1);
+    assert.equal(map.get([{ id: 1, kind: "user" }]), 2);
+  });
+});
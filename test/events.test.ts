@@ -0,0 +1,187 @@
+import { test, describe, mock } from "node:test";
+import { strict as assert } from "node:assert";
+import { SetKeyedMap, type SetKeyedMapEvent } from "../index.ts";
+
+function record<V>(map: SetKeyedMap<string, V>) {
+  const notifications: SetKeyedMapEvent<Set<string>, V>[][] = [];
+  const unsubscribe = map.subscribe((events) =>
+    notifications.push(Array.from(events)),
+  );
+  return { notifications, unsubscribe };
+}
+
+describe("SetKeyedMap - Change events", () => {
+  test("set() should fire set and update events", () => {
+    const map = new SetKeyedMap<string, number>();
+    const { notifications } = record(map);
+    map.set(["a", "b"], 1);
+    map.set(["b", "a"], 2);
+
+    assert.deepEqual(notifications, [
+      [{ type: "set", key: new Set(["a", "b"]), value: 1 }],
+      [{ type: "update", key: new Set(["a", "b"]), oldValue: 1, value: 2 }],
+    ]);
+  });
+
+  test("delete() should fire a delete event", () => {
+    const map = new SetKeyedMap<string, number>([[["a"], 1]]);
+    const { notifications } = record(map);
+    map.delete(["a"]);
+    map.delete(["a"]);
+
+    assert.deepEqual(notifications, [
+      [{ type: "delete", key: new Set(["a"]), oldValue: 1 }],
+    ]);
+  });
+
+  test("clear() should fire one clear event", () => {
+    const map = new SetKeyedMap<string, number>([
+      [["a"], 1],
+      [["b"], 2],
+    ]);
+    const { notifications } = record(map);
+    map.clear();
+    map.clear();
+
+    assert.deepEqual(notifications, [
+      [
+        {
+          type: "clear",
+          entries: [
+            [new Set(["a"]), 1],
+            [new Set(["b"]), 2],
+          ],
+        },
+      ],
+    ]);
+  });
+
+  test("clear() should evict expired entries first", (context) => {
+    context.mock.timers.enable({ apis: ["Date"] });
+    const map = new SetKeyedMap<string, number>(null, { ttl: 100 });
+    map.set(["a"], 1);
+    context.mock.timers.tick(50);
+    map.set(["b"], 2);
+    const { notifications } = record(map);
+    context.mock.timers.tick(50);
+    map.clear();
+
+    assert.deepEqual(notifications, [
+      [
+        {
+          type: "delete",
+          key: new Set(["a"]),
+          oldValue: 1,
+          reason: "expired",
+        },
+      ],
+      [{ type: "clear", entries: [[new Set(["b"]), 2]] }],
+    ]);
+  });
+
+  test("event keys should be copies", () => {
+    const map = new SetKeyedMap<string, number>();
+    const { notifications } = record(map);
+    map.set(["a"], 1);
+
+    const [[event]] = notifications;
+    assert.equal(event.type, "set");
+    if (event.type === "set") {
+      event.key.add("b");
+    }
+    assert.equal(map.get(["a"]), 1);
+  });
+
+  test("unsubscribing should stop events", () => {
+    const map = new SetKeyedMap<string, number>();
+    const { notifications, unsubscribe } = record(map);
+    map.set(["a"], 1);
+    unsubscribe();
+    map.set(["b"], 2);
+
+    assert.equal(notifications.length, 1);
+  });
+
+  test("batch() should notify once with every change", () => {
+    const map = new SetKeyedMap<string, number>();
+    const { notifications } = record(map);
+
+    const result = map.batch(() => {
+      map.set(["a"], 1);
+      map.batch(() => map.set(["b"], 2));
+      map.delete(["a"]);
+      return "done";
+    });
+
+    assert.equal(result, "done");
+    assert.deepEqual(notifications, [
+      [
+        { type: "set", key: new Set(["a"]), value: 1 },
+        { type: "set", key: new Set(["b"]), value: 2 },
+        { type: "delete", key: new Set(["a"]), oldValue: 1 },
+      ],
+    ]);
+  });
+
+  test("batch() should notify even if the callback throws", () => {
+    const map = new SetKeyedMap<string, number>();
+    const { notifications } = record(map);
+
+    assert.throws(() =>
+      map.batch(() => {
+        map.set(["a"], 1);
+        throw new Error("failed");
+      }),
+    );
+    assert.equal(notifications.length, 1);
+    assert.equal(
+      map.batch(() => 1),
+      1,
+    );
+    assert.equal(notifications.length, 1);
+  });
+
+  test("deleteContainingAny() should notify once", () => {
+    const map = new SetKeyedMap<string, number>([
+      [["a"], 1],
+      [["a", "b"], 2],
+      [["c"], 3],
+    ]);
+    const { notifications } = record(map);
+    map.deleteContainingAny(["a", "c"]);
+
+    assert.equal(notifications.length, 1);
+    assert.equal(notifications[0].length, 3);
+  });
+
+  test("evictions should fire delete events with a reason", () => {
+    const map = new SetKeyedMap<string, number>(null, { maxSize: 1 });
+    const { notifications } = record(map);
+    map.set(["a"], 1);
+    map.set(["b"], 2);
+
+    assert.deepEqual(notifications, [
+      [{ type: "set", key: new Set(["a"]), value: 1 }],
+      [
+        { type: "set", key: new Set(["b"]), value: 2 },
+        {
+          type: "delete",
+          key: new Set(["a"]),
+          oldValue: 1,
+          reason: "capacity",
+        },
+      ],
+    ]);
+  });
+
+  test("listeners may unsubscribe while being notified", () => {
+    const map = new SetKeyedMap<string, number>();
+    const second = mock.fn();
+    const unsubscribe = map.subscribe(() => unsubscribe());
+    map.subscribe(second);
+    map.set(["a"], 1);
+    map.set(["b"], 2);
+
+    assert.equal(second.mock.callCount(), 2);
+  });
+});
@@ -0,0 +1,69 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { SetKeyedMap } from "../index.ts";
+
+interface Post {
+  title: string;
+  tags: string[];
+}
+
+const posts: Post[] = [
+  { title: "one", tags: ["news", "tech"] },
+  { title: "two", tags: ["tech", "news"] },
+  { title: "three", tags: ["sport"] },
+  { title: "four", tags: ["tech", "news", "tech"] },
+  { title: "five", tags: [] },
+];
+
+describe("SetKeyedMap - groupBy and countBy", () => {
+  test("groupBy() should group items by set of elements", () => {
+    const groups = SetKeyedMap.groupBy(posts, (post) => post.tags);
+
+    assert.equal(groups.size, 3);
+    assert.deepEqual(
+      groups.get(["news", "tech"])?.map(({ title }) => title),
+      ["one", "two", "four"],
+    );
+    assert.deepEqual(
+      groups.get(["sport"])?.map(({ title }) => title),
+      ["three"],
+    );
+    assert.deepEqual(
+      groups.get([])?.map(({ title }) => title),
+      ["five"],
+    );
+  });
+
+  test("groupBy() should pass the index and accept any iterable", () => {
+    const groups = SetKeyedMap.groupBy(["a", "b", "c", "d"], (_item, index) =>
+      new Set([index % 2]).values(),
+    );
+
+    assert.deepEqual(groups.get([0]), ["a", "c"]);
+    assert.deepEqual(groups.get([1]), ["b", "d"]);
+  });
+
+  test("countBy() should count items by set of elements", () => {
+    const counts = SetKeyedMap.countBy(posts, (post) => post.tags);
+
+    assert.deepEqual(Array.from(counts), [
+      [new Set(["news", "tech"]), 3],
+      [new Set(["sport"]), 1],
+      [new Set(), 1],
+    ]);
+  });
+
+  test("should pass options to the map", () => {
+    const items = [{ ids: [{ id: 1 }] }, { ids: [{ id: 1 }] }];
+    const counts = SetKeyedMap.countBy(items, (item) => item.ids, {
+      elementKey: (element) => element.id,
+    });
+
+    assert.equal(counts.get([{ id: 1 }]), 2);
+  });
+
+  test("should handle no items", () => {
+    assert.equal(SetKeyedMap.groupBy([], () => []).size, 0);
+    assert.equal(SetKeyedMap.countBy([], () => []).size, 0);
+  });
+});
@@ -0,0 +1,128 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { SetKeyedMap } from "../index.ts";
+
+describe("SetKeyedMap - Iterable keys", () => {
+  test("should set and get with arrays", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(["a", "b"], 42);
+
+    assert.equal(map.get(["b", "a"]), 42);
+    assert.equal(map.get(new Set(["a", "b"])), 42);
+    assert.equal(map.has(["a", "b"]), true);
+    assert.equal(map.has(["a"]), false);
+  });
+
+  test("should treat arrays and sets with the same elements as the same key", () => {
+    const map = new SetKeyedMap<number, string>();
+    map.set(new Set([1, 2]), "set");
+    map.set([2, 1], "array");
+
+    assert.equal(map.size, 1);
+    assert.equal(map.get(new Set([1, 2])), "array");
+  });
+
+  test("should ignore duplicate elements", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(["a", "a", "b"], 1);
+
+    assert.equal(map.size, 1);
+    assert.equal(map.get(["a", "b"]), 1);
+    assert.equal(map.get(["b", "b", "a"]), 1);
+    assert.equal(map.has(["a", "a"]), false);
+
+    const [key] = Array.from(map.keys());
+    assert.deepEqual(key, new Set(["a", "b"]));
+  });
+
+  test("should delete with arrays", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(new Set(["a", "b"]), 42);
+
+    assert.equal(map.delete(["b", "a", "a"]), true);
+    assert.equal(map.size, 0);
+    assert.equal(map.delete(["a", "b"]), false);
+  });
+
+  test("should accept any iterable", () => {
+    const map = new SetKeyedMap<number, string>();
+    function* elements() {
+      yield 3;
+      yield 1;
+      yield 2;
+    }
+
+    map.set(elements(), "generated");
+    assert.equal(
+      map.get(
+        new Map([
+          [1, 0],
+          [2, 0],
+          [3, 0],
+        ]).keys(),
+      ),
+      "generated",
+    );
+    assert.equal(map.has([1, 2, 3]), true);
+  });
+
+  test("should accept empty arrays as the empty set", () => {
+    const map = new SetKeyedMap<number, string>();
+    map.set([], "empty");
+
+    assert.equal(map.get(new Set()), "empty");
+    assert.equal(map.delete([]), true);
+    assert.equal(map.size, 0);
+  });
+
+  test("should not retain the array used as a key", () => {
+    const map = new SetKeyedMap<string, number>();
+    const key = ["a", "b"];
+    map.set(key, 1);
+    key.push("c");
+
+    assert.equal(map.get(["a", "b"]), 1);
+    assert.equal(map.has(["a", "b", "c"]), false);
+  });
+
+  test("should reject strings as keys", () => {
+    const map = new SetKeyedMap<string, number>([[["a", "b", "c"], 1]]);
+
+    // @ts-expect-error A string is not a set of its characters
+    assert.throws(() => map.set("abc", 2), TypeError);
+    // @ts-expect-error
+    assert.throws(() => map.get("abc"), TypeError);
+    // @ts-expect-error
+    assert.throws(() => map.has("abc"), TypeError);
+    // @ts-expect-error
+    assert.throws(() => map.delete("abc"), TypeError);
+    // @ts-expect-error
+    assert.throws(() => map.getOrInsert("abc", 2), TypeError);
+    // @ts-expect-error
+    assert.throws(() => map.update("abc", () => 2), TypeError);
+    assert.equal(map.get(["a", "b", "c"]), 1);
+    assert.equal(map.size, 1);
+  });
+
+  test("should reject strings as sets of elements", () => {
+    const map = new SetKeyedMap<string, number>([[["a", "b", "c"], 1]]);
+
+    // @ts-expect-error A string is not a set of its characters
+    assert.throws(() => map.deleteContainingAny("ad"), TypeError);
+    // @ts-expect-error
+    assert.throws(() => Array.from(map.subsetsOf("abc")), TypeError);
+    // @ts-expect-error
+    assert.throws(() => Array.from(map.supersetsOf("a")), TypeError);
+    // @ts-expect-error
+    assert.throws(() => Array.from(map.intersecting("a")), TypeError);
+    // @ts-expect-error
+    assert.throws(() => Array.from(map.query({ all: "a" })), TypeError);
+    // @ts-expect-error
+    assert.throws(() => Array.from(map.query({ any: "a" })), TypeError);
+    // @ts-expect-error
+    assert.throws(() => Array.from(map.query({ none: "z" })), TypeError);
+    // @ts-expect-error
+    assert.throws(() => map.nearest("abc"), TypeError);
+    assert.equal(map.size, 1);
+  });
+});
@@ -0,0 +1,115 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { SetKeyedMap } from "../index.ts";
+
+describe("SetKeyedMap - JSON serialization", () => {
+  test("should serialize entries as element arrays and values", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(new Set(["a", "b"]), 1);
+    map.set(new Set(), 2);
+
+    assert.deepEqual(map.toJSON(), [
+      [["a", "b"], 1],
+      [[], 2],
+    ]);
+    assert.equal(JSON.stringify(map), '[[["a","b"],1],[[],2]]');
+  });
+
+  test("should serialize nested in other data", () => {
+    const map = new SetKeyedMap<string, number>([[["a"], 1]]);
+
+    assert.equal(JSON.stringify({ cache: map }), '{"cache":[[["a"],1]]}');
+  });
+
+  test("should round-trip strings", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(new Set(["a", "b"]), "ab");
+    map.set(new Set(["c"]), "c");
+
+    const revived = SetKeyedMap.fromJSON<string, string>(JSON.stringify(map));
+    assert.equal(revived.size, 2);
+    assert.equal(revived.get(new Set(["b", "a"])), "ab");
+    assert.equal(revived.get(new Set(["c"])), "c");
+  });
+
+  test("should round-trip numbers, booleans and null", () => {
+    const map = new SetKeyedMap<number | boolean | null, string>();
+    map.set([1, 2.5, -3], "numbers");
+    map.set([true, false], "booleans");
+    map.set([null, 0], "null and zero");
+
+    const revived = SetKeyedMap.fromJSON<number | boolean | null, string>(
+      JSON.stringify(map),
+    );
+    assert.deepEqual(revived.toJSON(), map.toJSON());
+    assert.equal(revived.get([-3, 1, 2.5]), "numbers");
+    assert.equal(revived.get([false, true]), "booleans");
+    assert.equal(revived.get([0, null]), "null and zero");
+  });
+
+  test("should revive dates and bigints", () => {
+    const map = new SetKeyedMap<bigint, Date>();
+    map.set([1n, 2n ** 70n], new Date("2020-01-02T03:04:05.000Z"));
+
+    const json = JSON.stringify(map, (_key, value) =>
+      typeof value === "bigint" ? value.toString() : value,
+    );
+    const revived = SetKeyedMap.fromJSON<bigint, Date>(json, {
+      reviveElement: (element) => BigInt(element as string),
+      reviveValue: (value) => new Date(value as string),
+    });
+
+    const value = revived.get([2n ** 70n, 1n]);
+    assert.ok(value instanceof Date);
+    assert.equal(value.toISOString(), "2020-01-02T03:04:05.000Z");
+  });
+
+  test("should revive object elements with an element key", () => {
+    const map = new SetKeyedMap<{ id: number }, string>(null, {
+      elementKey: (element) => element.id,
+    });
+    map.set([{ id: 1 }, { id: 2 }], "one-two");
+
+    const revived = SetKeyedMap.fromJSON<{ id: number }, string>(
+      JSON.stringify(map),
+      { elementKey: (element) => element.id },
+    );
+    assert.equal(revived.get([{ id: 2 }, { id: 1 }]), "one-two");
+    assert.deepEqual(
+      Array.from(revived.keys())[0],
+      new Set([{ id: 1 }, { id: 2 }]),
+    );
+  });
+
+  test("should accept already parsed JSON", () => {
+    const revived = SetKeyedMap.fromJSON<string, number>([
+      [["a", "b"], 1],
+      [["b", "a"], 2],
+    ]);
+
+    assert.equal(revived.size, 1);
+    assert.equal(revived.get(["a", "b"]), 2);
+  });
+
+  test("should rebuild a working index", () => {
+    const map = new SetKeyedMap<number, number>();
+    for (let i = 0; i < 10; i++) {
+      map.set([i, i + 1], i);
+    }
+
+    const revived = SetKeyedMap.fromJSON<number, number>(JSON.stringify(map));
+    assert.deepEqual(
+      Array.from(revived.supersetsOf([5]), ([, value]) => value),
+      [4, 5],
+    );
+    assert.equal(revived.delete([6, 5]), true);
+    assert.equal(revived.size, 9);
+  });
+
+  test("should reject malformed JSON", () => {
+    assert.throws(() => SetKeyedMap.fromJSON("{}"), TypeError);
+    assert.throws(() => SetKeyedMap.fromJSON("[[1, 2]]"), TypeError);
+    assert.throws(() => SetKeyedMap.fromJSON('[[["a"]]]'), TypeError);
+    assert.throws(() => SetKeyedMap.fromJSON("not json"), SyntaxError);
+  });
+});
@@ -0,0 +1,210 @@
+import { test, describe, mock } from "node:test";
+import { strict as assert } from "node:assert";
+import { SetKeyedMap, type EvictionReason } from "../index.ts";
+
+describe("SetKeyedMap - LRU cache", () => {
+  test("should evict the least recently set entry when full", () => {
+    const map = new SetKeyedMap<string, number>(null, { maxSize: 2 });
+    map.set(["a"], 1);
+    map.set(["b"], 2);
+    map.set(["c"], 3);
+
+    assert.equal(map.size, 2);
+    assert.equal(map.has(["a"]), false);
+    assert.deepEqual(Array.from(map.values()), [2, 3]);
+  });
+
+  test("get() and has() should count as uses", () => {
+    const map = new SetKeyedMap<string, number>(null, { maxSize: 2 });
+    map.set(["a"], 1);
+    map.set(["b"], 2);
+    assert.equal(map.get(["a"]), 1);
+    map.set(["c"], 3);
+
+    assert.deepEqual(Array.from(map.values()), [1, 3]);
+
+    assert.equal(map.has(["a"]), true);
+    map.set(["d"], 4);
+    assert.deepEqual(Array.from(map.values()), [1, 4]);
+  });
+
+  test("updating an entry should count as a use and not evict", () => {
+    const map = new SetKeyedMap<string, number>(null, { maxSize: 2 });
+    map.set(["a", "b"], 1);
+    map.set(["c"], 2);
+    map.set(["b", "a"], 10);
+
+    assert.equal(map.size, 2);
+    map.set(["d"], 3);
+    assert.deepEqual(Array.from(map.values()), [10, 3]);
+  });
+
+  test("should call onEvict with copies of evicted keys", () => {
+    const evicted: [Set<string>, number, EvictionReason][] = [];
+    const map = new SetKeyedMap<string, number>(null, {
+      maxSize: 1,
+      onEvict: (key, value, reason) => evicted.push([key, value, reason]),
+    });
+    map.set(["a", "b"], 1);
+    map.set(["c"], 2);
+
+    assert.deepEqual(evicted, [[new Set(["a", "b"]), 1, "capacity"]]);
+    evicted[0][0].add("c");
+    assert.equal(map.get(["c"]), 2);
+  });
+
+  test("deleting or clearing should not call onEvict", () => {
+    const onEvict = mock.fn();
+    const map = new SetKeyedMap<string, number>(null, { maxSize: 2, onEvict });
+    map.set(["a"], 1);
+    map.set(["b"], 2);
+    map.delete(["a"]);
+    map.clear();
+
+    assert.equal(onEvict.mock.callCount(), 0);
+  });
+
+  test("should keep the index consistent through eviction", () => {
+    const map = new SetKeyedMap<string, number>(null, { maxSize: 3 });
+    for (let i = 0; i < 100; i++) {
+      map.set([`x${i % 7}`, `y${i % 5}`, "shared"], i);
+    }
+
+    // Only the subkeys of the remaining keys are indexed
+    const subkeys = new Set(Array.from(map.keys(), (key) => [...key]).flat());
+    assert.equal(map["subkeyToKeys"].size, subkeys.size);
+    assert.equal(map["subkeyToKeys"].get("shared")?.size, 3);
+    assert.equal(map.size, 3);
+    assert.equal(Array.from(map.supersetsOf(["shared"])).length, 3);
+    assert.equal(map.has(["x0", "y0", "shared"]), false);
+  });
+
+  test("uses during iteration should not revisit entries", () => {
+    const map = new SetKeyedMap<string, number>(
+      [
+        [["a"], 1],
+        [["b"], 2],
+        [["c"], 3],
+      ],
+      { maxSize: 3 },
+    );
+
+    const visited: number[] = [];
+    for (const [key, value] of map) {
+      visited.push(value);
+      map.get(key);
+      map.set(key, value + 10);
+    }
+    map.forEach((_value, key) => map.has(key));
+    map.merge(map);
+
+    assert.deepEqual(visited, [1, 2, 3]);
+    assert.deepEqual(Array.from(map.values()), [11, 12, 13]);
+  });
+
+  test("uses should not change the order of iteration", () => {
+    const map = new SetKeyedMap<string, number>(null, { maxSize: 3 });
+    map.set(["a"], 1);
+    map.set(["b"], 2);
+    map.get(["a"]);
+    map.set(["c"], 3);
+    map.set(["d"], 4);
+
+    assert.deepEqual(Array.from(map.values()), [1, 3, 4]);
+  });
+
+  test("should evict entries from the constructor beyond maxSize", () => {
+    const map = new SetKeyedMap<string, number>(
+      [
+        [["a"], 1],
+        [["b"], 2],
+        [["c"], 3],
+      ],
+      { maxSize: 2 },
+    );
+
+    assert.deepEqual(Array.from(map.values()), [2, 3]);
+  });
+
+  test("should reject invalid options", () => {
+    assert.throws(() => new SetKeyedMap(null, { maxSize: 0 }), RangeError);
+    assert.throws(() => new SetKeyedMap(null, { maxSize: 1.5 }), RangeError);
+    assert.throws(() => new SetKeyedMap(null, { ttl: -1 }), RangeError);
+    assert.throws(() => new SetKeyedMap(null, { ttl: NaN }), RangeError);
+  });
+
+  test("derived maps should not inherit eviction", () => {
+    const map = new SetKeyedMap<string, number>(null, { maxSize: 2 });
+    map.set(["a"], 1);
+    map.set(["b"], 2);
+
+    const mapped = map.mapOver((value) => value * 10);
+    mapped.set(["c"], 30);
+    assert.equal(mapped.size, 3);
+  });
+});
+
+describe("SetKeyedMap - Expiring entries", () => {
+  test("should expire entries after the ttl", (context) => {
+    context.mock.timers.enable({ apis: ["Date"] });
+    const evicted: [Set<string>, number, EvictionReason][] = [];
+    const map = new SetKeyedMap<string, number>(null, {
+      ttl: 100,
+      onEvict: (key, value, reason) => evicted.push([key, value, reason]),
+    });
+    map.set(["a"], 1);
+    context.mock.timers.tick(50);
+    map.set(["b"], 2);
+
+    context.mock.timers.tick(50);
+    assert.equal(map.has(["a"]), false);
+    assert.equal(map.get(["b"]), 2);
+    assert.deepEqual(evicted, [[new Set(["a"]), 1, "expired"]]);
+
+    context.mock.timers.tick(50);
+    assert.equal(map.size, 0);
+    assert.deepEqual(Array.from(map.entries()), []);
+    assert.equal(map["subkeyToKeys"].size, 0);
+  });
+
+  test("setting an entry again should restart its ttl", (context) => {
+    context.mock.timers.enable({ apis: ["Date"] });
+    const map = new SetKeyedMap<string, number>(null, { ttl: 100 });
+    map.set(["a"], 1);
+    map.set(["b"], 2);
+    context.mock.timers.tick(60);
+    map.set(["a"], 10);
+
+    context.mock.timers.tick(60);
+    assert.deepEqual(Array.from(map.values()), [10]);
+  });
+
+  test("get() should not restart the ttl", (context) => {
+    context.mock.timers.enable({ apis: ["Date"] });
+    const map = new SetKeyedMap<string, number>(null, { ttl: 100 });
+    map.set(["a"], 1);
+    context.mock.timers.tick(60);
+    map.get(["a"]);
+
+    context.mock.timers.tick(60);
+    assert.equal(map.has(["a"]), false);
+  });
+
+  test("should combine with maxSize", (context) => {
+    context.mock.timers.enable({ apis: ["Date"] });
+    const reasons: EvictionReason[] = [];
+    const map = new SetKeyedMap<string, number>(null, {
+      maxSize: 2,
+      ttl: 100,
+      onEvict: (_key, _value, reason) => reasons.push(reason),
+    });
+    map.set(["a"], 1);
+    map.set(["b"], 2);
+    map.set(["c"], 3);
+    context.mock.timers.tick(100);
+    map.set(["d"], 4);
+
+    assert.deepEqual(reasons, ["capacity", "expired", "expired"]);
+    assert.deepEqual(Array.from(map.values()), [4]);
+  });
+});
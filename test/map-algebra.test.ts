@@ -0,0 +1,188 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { SetKeyedMap } from "../index.ts";
+
+describe("SetKeyedMap - Set algebra", () => {
+  test("union() should keep the other's value by default", () => {
+    const a = new SetKeyedMap<string, number>([
+      [["x", "y"], 1],
+      [["z"], 2],
+      [[], 3],
+    ]);
+    const b = new SetKeyedMap<string, number>([
+      [["y", "x"], 10],
+      [["w"], 20],
+    ]);
+
+    assert.deepEqual(Array.from(a.union(b)), [
+      [new Set(["x", "y"]), 10],
+      [new Set(["z"]), 2],
+      [new Set(), 3],
+      [new Set(["w"]), 20],
+    ]);
+    assert.equal(a.get(["x", "y"]), 1);
+    assert.equal(a.size, 3);
+  });
+
+  test("union() should resolve conflicts with the callback", () => {
+    const a = new SetKeyedMap<string, number>([
+      [["x", "y"], 1],
+      [["z"], 2],
+      [[], 3],
+    ]);
+    const b = new SetKeyedMap<string, number>([
+      [["y", "x"], 10],
+      [["w"], 20],
+    ]);
+    const keys: Set<string>[] = [];
+
+    const union = a.union(b, (value, otherValue, key) => {
+      keys.push(key);
+      return value + otherValue;
+    });
+    assert.equal(union.get(["x", "y"]), 11);
+    assert.equal(union.get(["w"]), 20);
+    assert.deepEqual(keys, [new Set(["x", "y"])]);
+  });
+
+  test("intersection() should keep this map's values", () => {
+    const a = new SetKeyedMap<string, number>([
+      [["x", "y"], 1],
+      [["z"], 2],
+      [[], 3],
+    ]);
+    const b = new SetKeyedMap<string, number>([
+      [["y", "x"], 10],
+      [["w"], 20],
+    ]);
+
+    assert.deepEqual(Array.from(a.intersection(b)), [[new Set(["x", "y"]), 1]]);
+    assert.deepEqual(Array.from(b.intersection(a)), [
+      [new Set(["y", "x"]), 10],
+    ]);
+  });
+
+  test("difference() should keep keys not in the other", () => {
+    const a = new SetKeyedMap<string, number>([
+      [["x", "y"], 1],
+      [["z"], 2],
+      [[], 3],
+    ]);
+    const b = new SetKeyedMap<string, number>([
+      [["y", "x"], 10],
+      [["w"], 20],
+    ]);
+
+    assert.deepEqual(Array.from(a.difference(b)), [
+      [new Set(["z"]), 2],
+      [new Set(), 3],
+    ]);
+  });
+
+  test("symmetricDifference() should keep keys in exactly one", () => {
+    const a = new SetKeyedMap<string, number>([
+      [["x", "y"], 1],
+      [["z"], 2],
+      [[], 3],
+    ]);
+    const b = new SetKeyedMap<string, number>([
+      [["y", "x"], 10],
+      [["w"], 20],
+    ]);
+
+    assert.deepEqual(Array.from(a.symmetricDifference(b)), [
+      [new Set(["z"]), 2],
+      [new Set(), 3],
+      [new Set(["w"]), 20],
+    ]);
+  });
+
+  test("should accept any iterable of entries", () => {
+    const a = new SetKeyedMap<string, number>([
+      [["x", "y"], 1],
+      [["z"], 2],
+      [[], 3],
+    ]);
+
+    assert.equal(a.intersection([[["y", "x"], "other"]]).size, 1);
+    assert.equal(a.difference(new Map([[["z"], null]])).size, 2);
+    assert.equal(
+      a
+        .union([
+          [["w", "w"], 4],
+          [["w"], 5],
+        ])
+        .get(["w"]),
+      5,
+    );
+  });
+
+  test("merge() should set entries from each map in place", () => {
+    const a = new SetKeyedMap<string, number>([
+      [["x", "y"], 1],
+      [["z"], 2],
+      [[], 3],
+    ]);
+    const b = new SetKeyedMap<string, number>([
+      [["y", "x"], 10],
+      [["w"], 20],
+    ]);
+
+    const result = a.merge(b, [[["z"], 30]]);
+    assert.equal(result, a);
+    assert.deepEqual(Array.from(a.values()), [10, 30, 3, 20]);
+    assert.equal(a["subkeyToKeys"].get("x")?.size, 1);
+  });
+
+  test("merge() should notify listeners once", () => {
+    const a = new SetKeyedMap<string, number>([
+      [["x", "y"], 1],
+      [["z"], 2],
+      [[], 3],
+    ]);
+    const b = new SetKeyedMap<string, number>([
+      [["y", "x"], 10],
+      [["w"], 20],
+    ]);
+    const notifications: string[][] = [];
+    a.subscribe((events) => notifications.push(events.map(({ type }) => type)));
+
+    a.merge(b);
+    assert.deepEqual(notifications, [["update", "set"]]);
+  });
+
+  test("results should use this map's elementKey", () => {
+    const a = new SetKeyedMap<{ id: number }, string>([[[{ id: 1 }], "a"]], {
+      elementKey: (element) => element.id,
+    });
+
+    assert.equal(a.intersection([[[{ id: 1 }], "b"]]).size, 1);
+    assert.equal(a.union([[[{ id: 1 }], "b"]]).get([{ id: 1 }]), "b");
+  });
+
+  test("should not count as using either map's entries", () => {
+    const a = new SetKeyedMap<string, number>(
+      [
+        [["x"], 1],
+        [["y"], 2],
+      ],
+      { maxSize: 2 },
+    );
+    const b = new SetKeyedMap<string, number>(
+      [
+        [["x"], 10],
+        [["z"], 20],
+      ],
+      { maxSize: 2 },
+    );
+
+    a.intersection(b);
+    a.difference(b);
+    a.symmetricDifference(b);
+    a.set(["w"], 3);
+    b.set(["w"], 30);
+
+    assert.deepEqual(Array.from(a.values()), [2, 3]);
+    assert.deepEqual(Array.from(b.values()), [20, 30]);
+  });
+});
@@ -0,0 +1,141 @@
+import { test, describe, mock } from "node:test";
+import { strict as assert } from "node:assert";
+import { memoizeBySet } from "../index.ts";
+
+describe("memoizeBySet", () => {
+  test("should call the function once per distinct set", () => {
+    const fn = mock.fn((tags: Set<string>) => Array.from(tags).sort().join());
+    const memoized = memoizeBySet(fn);
+
+    assert.equal(memoized(new Set(["b", "a"])), "a,b");
+    assert.equal(memoized(["a", "b"]), "a,b");
+    assert.equal(memoized(["c"]), "c");
+    assert.equal(fn.mock.callCount(), 2);
+  });
+
+  test("should cache undefined results", () => {
+    const fn = mock.fn((_tags: Set<string>) => undefined);
+    const memoized = memoizeBySet(fn);
+
+    memoized(["a"]);
+    memoized(["a"]);
+    assert.equal(fn.mock.callCount(), 1);
+  });
+
+  test("should pass the function a set of the elements", () => {
+    const fn = mock.fn((tags: Set<string>) => tags.size);
+    const memoized = memoizeBySet(fn);
+
+    assert.equal(memoized(["a", "b", "a"].values()), 2);
+    assert.deepEqual(fn.mock.calls[0].arguments[0], new Set(["a", "b"]));
+  });
+
+  test("invalidate() should forget one set", () => {
+    const fn = mock.fn((tags: Set<string>) => tags.size);
+    const memoized = memoizeBySet(fn);
+    memoized(["a", "b"]);
+    memoized(["c"]);
+
+    assert.equal(memoized.invalidate(["b", "a"]), true);
+    assert.equal(memoized.invalidate(["b", "a"]), false);
+    memoized(["a", "b"]);
+    memoized(["c"]);
+    assert.equal(fn.mock.callCount(), 3);
+  });
+
+  test("invalidateContaining() should forget every set with the element", () => {
+    const fn = mock.fn((tags: Set<string>) => tags.size);
+    const memoized = memoizeBySet(fn);
+    memoized(["a", "b"]);
+    memoized(["a"]);
+    memoized(["c"]);
+
+    assert.equal(memoized.invalidateContaining("a"), 2);
+    assert.equal(memoized.invalidateContaining("z"), 0);
+    memoized(["c"]);
+    assert.equal(fn.mock.callCount(), 3);
+    memoized(["a"]);
+    assert.equal(fn.mock.callCount(), 4);
+  });
+
+  test("clear() should forget every set", () => {
+    const fn = mock.fn((tags: Set<string>) => tags.size);
+    const memoized = memoizeBySet(fn);
+    memoized(["a"]);
+    memoized.clear();
+    memoized(["a"]);
+
+    assert.equal(fn.mock.callCount(), 2);
+  });
+
+  test("should pass options to the cache", () => {
+    const fn = mock.fn((tags: Set<string>) => tags.size);
+    const memoized = memoizeBySet(fn, { maxSize: 1 });
+    memoized(["a"]);
+    memoized(["b"]);
+    memoized(["a"]);
+
+    assert.equal(fn.mock.callCount(), 3);
+  });
+
+  test("should recompute once the ttl has passed", (context) => {
+    context.mock.timers.enable({ apis: ["Date"] });
+    const fn = mock.fn((_tags: Set<string>) => undefined);
+    const memoized = memoizeBySet(fn, { ttl: 10 });
+    memoized(["a"]);
+    context.mock.timers.tick(5);
+    memoized(["a"]);
+    assert.equal(fn.mock.callCount(), 1);
+
+    context.mock.timers.tick(5);
+    assert.equal(memoized(["a"]), undefined);
+    assert.equal(fn.mock.callCount(), 2);
+  });
+
+  test("concurrent calls with equivalent sets should share a promise", async () => {
+    const fn = mock.fn(async (tags: Set<string>) => tags.size);
+    const memoized = memoizeBySet(fn);
+
+    const first = memoized(["a", "b"]);
+    const second = memoized(["b", "a"]);
+    assert.equal(first, second);
+    assert.equal(await first, 2);
+    assert.equal(fn.mock.callCount(), 1);
+  });
+
+  test("rejected promises should be forgotten", async () => {
+    let fail = true;
+    const fn = mock.fn(async (tags: Set<string>) => {
+      if (fail) {
+        throw new Error("failed");
+      }
+      return tags.size;
+    });
+    const memoized = memoizeBySet(fn);
+
+    await assert.rejects(memoized(["a"]), /failed/);
+    fail = false;
+    assert.equal(await memoized(["a"]), 1);
+    assert.equal(await memoized(["a"]), 1);
+    assert.equal(fn.mock.callCount(), 2);
+  });
+
+  test("a rejection should not forget a newer promise", async () => {
+    let rejectFirst!: (error: Error) => void;
+    const fn = mock.fn((_tags: Set<string>) =>
+      fn.mock.callCount() === 0
+        ? new Promise<number>((_resolve, reject) => (rejectFirst = reject))
+        : Promise.resolve(2),
+    );
+    const memoized = memoizeBySet(fn);
+
+    const stale = memoized(["a"]);
+    memoized.invalidate(["a"]);
+    const fresh = memoized(["a"]);
+    rejectFirst(new Error("stale"));
+    await assert.rejects(stale, /stale/);
+
+    assert.equal(memoized(["a"]), fresh);
+    assert.equal(fn.mock.callCount(), 2);
+  });
+});
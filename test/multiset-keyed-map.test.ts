@@ -0,0 +1,256 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { MultisetKeyedMap } from "../index.ts";
+
+describe("MultisetKeyedMap - Basic Map functionality", () => {
+  test("should set and get values", () => {
+    const map = new MultisetKeyedMap<string, number>();
+    map.set(["a", "a", "b"], 42);
+
+    assert.equal(map.get(["a", "b", "a"]), 42);
+    assert.equal(map.has(["b", "a", "a"]), true);
+    assert.equal(map.size, 1);
+  });
+
+  test("should distinguish keys by element counts", () => {
+    const map = new MultisetKeyedMap<string, string>();
+    map.set(["a", "b"], "ab");
+    map.set(["a", "a", "b"], "aab");
+    map.set(["a", "b", "b"], "abb");
+
+    assert.equal(map.size, 3);
+    assert.equal(map.get(["b", "a"]), "ab");
+    assert.equal(map.get(["b", "a", "a"]), "aab");
+    assert.equal(map.get(["b", "a", "b"]), "abb");
+    assert.equal(map.has(["a", "a", "b", "b"]), false);
+    assert.equal(map.has(["a"]), false);
+  });
+
+  test("should accept count maps as keys", () => {
+    const map = new MultisetKeyedMap<string, string>();
+    map.set(
+      new Map([
+        ["flour", 2],
+        ["egg", 3],
+      ]),
+      "pancakes",
+    );
+
+    assert.equal(map.get(["egg", "flour", "egg", "flour", "egg"]), "pancakes");
+    assert.equal(
+      map.get(
+        new Map([
+          ["egg", 3],
+          ["flour", 2],
+          ["sugar", 0],
+        ]),
+      ),
+      "pancakes",
+    );
+    assert.equal(map.has(new Map([["flour", 2]])), false);
+  });
+
+  test("should reject invalid counts", () => {
+    const map = new MultisetKeyedMap<string, string>();
+
+    assert.throws(() => map.set(new Map([["a", -1]]), "negative"), RangeError);
+    assert.throws(() => map.get(new Map([["a", 1.5]])), RangeError);
+    assert.equal(map.size, 0);
+  });
+
+  test("should update, delete and clear", () => {
+    const map = new MultisetKeyedMap<number, string>();
+    map.set([6, 6], "double six");
+    map.set([6, 6], "boxcars");
+    map.set([1, 1], "snake eyes");
+
+    assert.equal(map.size, 2);
+    assert.equal(map.get([6, 6]), "boxcars");
+
+    assert.equal(map.delete([6]), false);
+    assert.equal(map.delete(new Map([[6, 2]])), true);
+    assert.equal(map.has([6, 6]), false);
+    assert.equal(map.size, 1);
+
+    map.clear();
+    assert.equal(map.size, 0);
+    assert.equal(map.has([1, 1]), false);
+  });
+
+  test("should support the empty multiset", () => {
+    const map = new MultisetKeyedMap<string, string>();
+    map.set([], "empty");
+
+    assert.equal(map.get(new Map()), "empty");
+    assert.equal(map.get(new Map([["a", 0]])), "empty");
+    assert.equal(map.delete([]), true);
+    assert.equal(map.size, 0);
+  });
+
+  test("should keep the index consistent after deletes", () => {
+    const map = new MultisetKeyedMap<string, number>();
+    map.set(["a", "a"], 1);
+    map.set(["a", "b"], 2);
+    map.delete(["a", "a"]);
+    map.delete(["b", "a"]);
+
+    assert.equal(map["subkeyToKeys"].size, 0);
+    assert.equal(map["subkeyHashes"].size, 0);
+    assert.equal(map["hashToKeys"].size, 0);
+  });
+
+  test("should populate initial entries", () => {
+    const map = new MultisetKeyedMap<string, number>([
+      [["a", "a"], 1],
+      [new Map([["a", 2]]), 2],
+      [["a"], 3],
+    ]);
+
+    assert.equal(map.size, 2);
+    assert.equal(map.get(["a", "a"]), 2);
+  });
+
+  test("should identify elements with the element key", () => {
+    const map = new MultisetKeyedMap<{ id: number }, string>(null, {
+      elementKey: (element) => element.id,
+    });
+    map.set([{ id: 1 }, { id: 1 }, { id: 2 }], "one-one-two");
+
+    assert.equal(map.get([{ id: 2 }, { id: 1 }, { id: 1 }]), "one-one-two");
+    assert.equal(map.has([{ id: 1 }, { id: 2 }]), false);
+  });
+});
+
+describe("MultisetKeyedMap - Iterators", () => {
+  test("should yield keys as count maps", () => {
+    const map = new MultisetKeyedMap<string, number>();
+    map.set(["a", "b", "a"], 1);
+    map.set([], 2);
+
+    assert.deepEqual(Array.from(map.keys()), [
+      new Map([
+        ["a", 2],
+        ["b", 1],
+      ]),
+      new Map(),
+    ]);
+    assert.deepEqual(Array.from(map.values()), [1, 2]);
+    assert.deepEqual(Array.from(map), [
+      [
+        new Map([
+          ["a", 2],
+          ["b", 1],
+        ]),
+        1,
+      ],
+      [new Map(), 2],
+    ]);
+  });
+
+  test("yielded keys should be copies", () => {
+    const map = new MultisetKeyedMap<string, number>();
+    map.set(["a", "a"], 1);
+
+    const [key] = map.keys();
+    key.set("a", 3);
+
+    assert.equal(map.get(["a", "a"]), 1);
+    assert.equal(map.has(["a", "a", "a"]), false);
+  });
+
+  test("yielded keys should be usable for lookups", () => {
+    const map = new MultisetKeyedMap<string, number>();
+    map.set(["a", "a", "b"], 1);
+
+    const [key] = map.keys();
+    assert.equal(map.get(key), 1);
+  });
+});
+
+describe("MultisetKeyedMap - Array-like methods", () => {
+  function createMap() {
+    const map = new MultisetKeyedMap<string, number>();
+    map.set(["a"], 1);
+    map.set(["a", "a"], 2);
+    map.set(["a", "a", "b"], 3);
+    return map;
+  }
+
+  test("should test every and some", () => {
+    const map = createMap();
+
+    assert.equal(
+      map.every((v) => v > 0),
+      true,
+    );
+    assert.equal(
+      map.some((v) => v > 2),
+      true,
+    );
+    assert.equal(
+      map.some((v) => v > 3),
+      false,
+    );
+  });
+
+  test("should filter into a working MultisetKeyedMap", () => {
+    const filtered = createMap().filter((_v, key) => key.get("a") === 2);
+
+    assert.ok(filtered instanceof MultisetKeyedMap);
+    assert.equal(filtered.size, 2);
+    assert.equal(filtered.get(["a", "a"]), 2);
+    assert.equal(filtered.get(["b", "a", "a"]), 3);
+    assert.equal(filtered.has(["a"]), false);
+  });
+
+  test("should find and include", () => {
+    const map = createMap();
+
+    assert.deepEqual(
+      map.find((v) => v === 2),
+      [new Map([["a", 2]]), 2],
+    );
+    assert.equal(map.includes(3), true);
+    assert.equal(map.includes(4), false);
+  });
+
+  test("should map, flatMap and mapOver", () => {
+    const map = createMap();
+
+    assert.deepEqual(
+      map.map((v) => v * 2),
+      [2, 4, 6],
+    );
+    assert.deepEqual(
+      map.flatMap((v, key) => [v, key.size]),
+      [1, 1, 2, 1, 3, 2],
+    );
+
+    const mapped = map.mapOver((v) => `${v}`);
+    assert.equal(mapped.get(["a", "b", "a"]), "3");
+  });
+
+  test("should reduce in both directions", () => {
+    const map = createMap();
+
+    assert.equal(
+      map.reduce((acc, v) => acc + v, ""),
+      "123",
+    );
+    assert.equal(
+      map.reduceRight((acc, v) => acc + v, ""),
+      "321",
+    );
+  });
+
+  test("should call forEach for every entry", () => {
+    const map = createMap();
+    const seen: number[] = [];
+    map.forEach((v, _key, m) => {
+      assert.equal(m, map);
+      seen.push(v);
+    });
+
+    assert.deepEqual(seen, [1, 2, 3]);
+  });
+});
@@ -0,0 +1,128 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { SetKeyedMap } from "../index.ts";
+
+function scores(entries: [Set<string>, string, number][]) {
+  return entries.map(([, value, score]) => [value, score]);
+}
+
+describe("SetKeyedMap - Nearest keys", () => {
+  test("should return the most similar entry by Jaccard", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(["a", "b", "c", "d"], "abcd");
+    map.set(["a", "b"], "ab");
+    map.set(["c", "e"], "ce");
+    map.set(["x"], "x");
+    map.set([], "empty");
+
+    assert.deepEqual(map.nearest(["a", "b", "c"]), [
+      [new Set(["a", "b", "c", "d"]), "abcd", 0.75],
+    ]);
+  });
+
+  test("should rank the k most similar entries", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(["a", "b", "c", "d"], "abcd");
+    map.set(["a", "b"], "ab");
+    map.set(["c", "e"], "ce");
+    map.set(["x"], "x");
+    map.set([], "empty");
+
+    assert.deepEqual(scores(map.nearest(["a", "b", "c"], { k: 10 })), [
+      ["abcd", 0.75],
+      ["ab", 2 / 3],
+      ["ce", 0.25],
+    ]);
+  });
+
+  test("should score by overlap coefficient", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(["a", "b", "c", "d"], "abcd");
+    map.set(["a", "b"], "ab");
+    map.set(["c", "e"], "ce");
+    map.set(["x"], "x");
+    map.set([], "empty");
+
+    assert.deepEqual(
+      scores(map.nearest(["a", "b", "c"], { k: 3, metric: "overlap" })),
+      [
+        ["abcd", 1],
+        ["ab", 1],
+        ["ce", 0.5],
+      ],
+    );
+  });
+
+  test("should score by containment of the set", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(["a", "b", "c", "d"], "abcd");
+    map.set(["a", "b"], "ab");
+    map.set(["c", "e"], "ce");
+    map.set(["x"], "x");
+    map.set([], "empty");
+
+    assert.deepEqual(
+      scores(map.nearest(["a", "e", "z"], { k: 3, metric: "containment" })),
+      [
+        ["abcd", 1 / 3],
+        ["ab", 1 / 3],
+        ["ce", 1 / 3],
+      ],
+    );
+  });
+
+  test("should only score keys sharing an element", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(["a", "b", "c", "d"], "abcd");
+    map.set(["a", "b"], "ab");
+    map.set(["c", "e"], "ce");
+    map.set(["x"], "x");
+    map.set([], "empty");
+
+    assert.deepEqual(map.nearest(["z"]), []);
+    assert.deepEqual(map.nearest([]), []);
+  });
+
+  test("exact matches should score 1", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(["a", "b", "c", "d"], "abcd");
+    map.set(["a", "b"], "ab");
+    map.set(["c", "e"], "ce");
+    map.set(["x"], "x");
+    map.set([], "empty");
+
+    assert.deepEqual(map.nearest(["b", "a"]), [[new Set(["a", "b"]), "ab", 1]]);
+  });
+
+  test("should reject invalid options", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(["a", "b", "c", "d"], "abcd");
+    map.set(["a", "b"], "ab");
+    map.set(["c", "e"], "ce");
+    map.set(["x"], "x");
+    map.set([], "empty");
+
+    assert.throws(() => map.nearest(["a"], { k: 0 }), RangeError);
+    assert.throws(
+      () => map.nearest(["a"], { metric: "cosine" as "jaccard" }),
+      TypeError,
+    );
+    assert.throws(
+      () => map.nearest(["z"], { metric: "cosine" as "jaccard" }),
+      TypeError,
+    );
+  });
+
+  test("should return copies of keys", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(["a", "b", "c", "d"], "abcd");
+    map.set(["a", "b"], "ab");
+    map.set(["c", "e"], "ce");
+    map.set(["x"], "x");
+    map.set([], "empty");
+
+    const [[key]] = map.nearest(["x"]);
+    key.add("y");
+    assert.equal(map.get(["x"]), "x");
+  });
+});
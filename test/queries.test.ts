@@ -0,0 +1,101 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { SetKeyedMap } from "../index.ts";
+
+function sortedValues<K, V>(entries: Iterable<[K, V]>): V[] {
+  return Array.from(entries, ([, value]) => value).sort();
+}
+
+describe("SetKeyedMap - Subset and superset queries", () => {
+  test("should find entries whose key is a subset", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(new Set(["a"]), "a");
+    map.set(new Set(["a", "b"]), "ab");
+    map.set(new Set(["a", "b", "c"]), "abc");
+    map.set(new Set(["b", "d"]), "bd");
+
+    assert.deepEqual(sortedValues(map.subsetsOf(new Set(["b", "a"]))), [
+      "a",
+      "ab",
+    ]);
+    assert.deepEqual(sortedValues(map.subsetsOf(new Set(["c", "b", "a"]))), [
+      "a",
+      "ab",
+      "abc",
+    ]);
+    assert.deepEqual(sortedValues(map.subsetsOf(new Set(["z"]))), []);
+  });
+
+  test("should find entries whose key is a superset", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(new Set(["a"]), "a");
+    map.set(new Set(["a", "b"]), "ab");
+    map.set(new Set(["a", "b", "c"]), "abc");
+    map.set(new Set(["b", "d"]), "bd");
+
+    assert.deepEqual(sortedValues(map.supersetsOf(new Set(["b"]))), [
+      "ab",
+      "abc",
+      "bd",
+    ]);
+    assert.deepEqual(sortedValues(map.supersetsOf(new Set(["b", "a"]))), [
+      "ab",
+      "abc",
+    ]);
+    assert.deepEqual(sortedValues(map.supersetsOf(new Set(["a", "z"]))), []);
+  });
+
+  test("every key should be a superset of the empty set", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(new Set(["a"]), "a");
+    map.set(new Set(["b", "c"]), "bc");
+
+    assert.deepEqual(sortedValues(map.supersetsOf(new Set())), ["a", "bc"]);
+  });
+
+  test("should find entries whose key intersects", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(new Set(["a", "b"]), "ab");
+    map.set(new Set(["b", "c"]), "bc");
+    map.set(new Set(["d"]), "d");
+
+    assert.deepEqual(sortedValues(map.intersecting(new Set(["b", "c"]))), [
+      "ab",
+      "bc",
+    ]);
+    assert.deepEqual(sortedValues(map.intersecting(new Set(["d", "z"]))), [
+      "d",
+    ]);
+    assert.deepEqual(sortedValues(map.intersecting(new Set(["z"]))), []);
+  });
+
+  test("queries should accept any iterable", () => {
+    const map = new SetKeyedMap<number, string>();
+    map.set(new Set([1, 2]), "one-two");
+
+    assert.deepEqual(sortedValues(map.subsetsOf([1, 2, 2, 3])), ["one-two"]);
+    assert.deepEqual(sortedValues(map.supersetsOf([2, 2])), ["one-two"]);
+  });
+
+  test("queries should reflect deletions", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(new Set(["a", "b"]), "ab");
+    map.set(new Set(["a"]), "a");
+    map.delete(new Set(["b", "a"]));
+
+    assert.deepEqual(sortedValues(map.subsetsOf(new Set(["a", "b"]))), ["a"]);
+    assert.deepEqual(sortedValues(map.supersetsOf(new Set(["a"]))), ["a"]);
+    assert.deepEqual(sortedValues(map.intersecting(new Set(["b"]))), []);
+  });
+
+  test("yielded keys should be copies", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(new Set(["a", "b"]), "ab");
+
+    const [[key]] = Array.from(map.supersetsOf(new Set(["a"])));
+    key.add("c");
+
+    assert.equal(map.get(new Set(["a", "b"])), "ab");
+    assert.equal(map.has(new Set(["a", "b", "c"])), false);
+  });
+});
@@ -0,0 +1,123 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { SetKeyedMap } from "../index.ts";
+
+function values(entries: Iterable<[Set<string>, string]>) {
+  return Array.from(entries, ([, value]) => value);
+}
+
+describe("SetKeyedMap - Query", () => {
+  test("all should require every element", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(["beta", "dark"], "beta-dark");
+    map.set(["beta"], "beta");
+    map.set(["dark", "mobile"], "dark-mobile");
+    map.set(["beta", "dark", "mobile"], "beta-dark-mobile");
+    map.set([], "default");
+
+    assert.deepEqual(values(map.query({ all: ["dark", "beta"] })), [
+      "beta-dark",
+      "beta-dark-mobile",
+    ]);
+    assert.deepEqual(values(map.query({ all: ["beta", "missing"] })), []);
+  });
+
+  test("any should require at least one element", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(["beta", "dark"], "beta-dark");
+    map.set(["beta"], "beta");
+    map.set(["dark", "mobile"], "dark-mobile");
+    map.set(["beta", "dark", "mobile"], "beta-dark-mobile");
+    map.set([], "default");
+
+    assert.deepEqual(values(map.query({ any: ["mobile", "beta"] })), [
+      "dark-mobile",
+      "beta-dark-mobile",
+      "beta-dark",
+      "beta",
+    ]);
+    assert.deepEqual(values(map.query({ any: [] })), []);
+  });
+
+  test("none should exclude elements", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(["beta", "dark"], "beta-dark");
+    map.set(["beta"], "beta");
+    map.set(["dark", "mobile"], "dark-mobile");
+    map.set(["beta", "dark", "mobile"], "beta-dark-mobile");
+    map.set([], "default");
+
+    assert.deepEqual(values(map.query({ none: ["dark"] })), [
+      "beta",
+      "default",
+    ]);
+    assert.deepEqual(values(map.query({ all: ["beta"], none: ["mobile"] })), [
+      "beta-dark",
+      "beta",
+    ]);
+  });
+
+  test("should combine every condition", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(["beta", "dark"], "beta-dark");
+    map.set(["beta"], "beta");
+    map.set(["dark", "mobile"], "dark-mobile");
+    map.set(["beta", "dark", "mobile"], "beta-dark-mobile");
+    map.set([], "default");
+
+    assert.deepEqual(
+      values(
+        map.query({
+          all: ["dark"],
+          any: ["beta", "mobile"],
+          none: ["missing"],
+          maxSize: 2,
+        }),
+      ),
+      ["beta-dark", "dark-mobile"],
+    );
+  });
+
+  test("size bounds should apply to every key", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(["beta", "dark"], "beta-dark");
+    map.set(["beta"], "beta");
+    map.set(["dark", "mobile"], "dark-mobile");
+    map.set(["beta", "dark", "mobile"], "beta-dark-mobile");
+    map.set([], "default");
+
+    assert.deepEqual(values(map.query({ minSize: 2, maxSize: 2 })), [
+      "beta-dark",
+      "dark-mobile",
+    ]);
+    assert.deepEqual(values(map.query({ maxSize: 0 })), ["default"]);
+    assert.equal(values(map.query({})).length, 5);
+  });
+
+  test("should be lazy", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(["beta", "dark"], "beta-dark");
+    map.set(["beta"], "beta");
+    map.set(["dark", "mobile"], "dark-mobile");
+    map.set(["beta", "dark", "mobile"], "beta-dark-mobile");
+    map.set([], "default");
+
+    const results = map.query({ all: ["beta"] });
+    assert.deepEqual(results.next().value?.[1], "beta-dark");
+    map.delete(["beta"]);
+    assert.deepEqual(values(results), ["beta-dark-mobile"]);
+  });
+
+  test("should return copies of keys", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(["beta", "dark"], "beta-dark");
+    map.set(["beta"], "beta");
+    map.set(["dark", "mobile"], "dark-mobile");
+    map.set(["beta", "dark", "mobile"], "beta-dark-mobile");
+    map.set([], "default");
+
+    const [[key]] = map.query({ all: ["beta"], maxSize: 1 });
+    key.add("dark");
+    assert.equal(map.get(["beta"]), "beta");
+  });
+});
@@ -0,0 +1,111 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { SetKeyedMap } from "../index.ts";
+
+describe("SetKeyedMap - Read-only key views", () => {
+  test("should iterate read-only keys", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(new Set(["a", "b"]), 1);
+    map.set(new Set(["c"]), 2);
+
+    const keys = Array.from(map.readonlyKeys());
+    assert.equal(keys.length, 2);
+    assert.deepEqual(Array.from(keys[0]), ["a", "b"]);
+    assert.equal(keys[0].size, 2);
+    assert.equal(keys[0].has("a"), true);
+    assert.equal(keys[1].has("a"), false);
+  });
+
+  test("should iterate read-only entries", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(new Set(["a", "b"]), 1);
+    map.set(new Set(), 2);
+
+    const entries = Array.from(map.readonlyEntries(), ([key, value]) => [
+      Array.from(key),
+      value,
+    ]);
+    assert.deepEqual(entries, [
+      [["a", "b"], 1],
+      [[], 2],
+    ]);
+  });
+
+  test("should yield the same view on every iteration", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(new Set(["a", "b"]), 1);
+
+    const [first] = map.readonlyKeys();
+    const [[second]] = map.readonlyEntries();
+    assert.equal(first, second);
+  });
+
+  test("views should not expose mutation", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(new Set(["a", "b"]), 1);
+
+    const [key] = map.readonlyKeys();
+    const mutable = key as unknown as Set<string>;
+    assert.equal(mutable.add, undefined);
+    assert.equal(mutable.delete, undefined);
+    assert.equal(mutable.clear, undefined);
+    assert.equal(Object.isFrozen(key), true);
+    assert.throws(() => {
+      (mutable as any).size = 0;
+    }, TypeError);
+
+    assert.equal(map.get(new Set(["a", "b"])), 1);
+    assert.equal(key.size, 2);
+  });
+
+  test("views should support the ReadonlySet interface", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(new Set(["a", "b"]), 1);
+
+    const [key] = map.readonlyKeys();
+    assert.deepEqual(Array.from(key.keys()), ["a", "b"]);
+    assert.deepEqual(Array.from(key.values()), ["a", "b"]);
+    assert.deepEqual(Array.from(key.entries()), [
+      ["a", "a"],
+      ["b", "b"],
+    ]);
+
+    const visited: [string, string, ReadonlySet<string>][] = [];
+    key.forEach((value, value2, set) => visited.push([value, value2, set]));
+    assert.deepEqual(visited, [
+      ["a", "a", key],
+      ["b", "b", key],
+    ]);
+    assert.equal(new Set(key).size, 2);
+  });
+
+  test("views should be usable as lookup keys", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(new Set(["a", "b"]), 1);
+
+    const [key] = map.readonlyKeys();
+    assert.equal(map.get(key), 1);
+  });
+
+  test("views should be unaffected by later changes to the map", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(new Set(["a", "b"]), 1);
+
+    const [key] = map.readonlyKeys();
+    map.delete(new Set(["a", "b"]));
+    map.set(new Set(["a", "b", "c"]), 2);
+
+    assert.deepEqual(Array.from(key), ["a", "b"]);
+  });
+
+  test("default iterators should still copy keys", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(new Set(["a", "b"]), 1);
+
+    const [first] = map.keys();
+    const [second] = map.keys();
+    assert.notEqual(first, second);
+    first.add("c");
+    assert.equal(map.get(new Set(["a", "b"])), 1);
+  });
+});
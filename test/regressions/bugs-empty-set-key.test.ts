@@ -0,0 +1,100 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { SetKeyedMap } from "../../index.ts";
+
+describe("Bug: Empty Set Keys Could Be Set But Never Found", () => {
+  test("get() and has() should find the empty set", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(new Set(), 42);
+
+    assert.equal(map.get(new Set()), 42);
+    assert.equal(map.has(new Set()), true);
+    assert.equal(map.size, 1);
+  });
+
+  test("setting the empty set twice should update the same entry", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(new Set(), 1);
+    map.set(new Set(), 2);
+
+    assert.equal(map.size, 1);
+    assert.equal(map.get(new Set()), 2);
+  });
+
+  test("delete() should remove the empty set", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(new Set(), 42);
+    map.set(new Set(["a"]), 1);
+
+    assert.equal(map.delete(new Set()), true);
+    assert.equal(map.has(new Set()), false);
+    assert.equal(map.delete(new Set()), false);
+    assert.equal(map.size, 1);
+    assert.equal(map.get(new Set(["a"])), 1);
+  });
+
+  test("clear() should remove the empty set", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(new Set(), 42);
+    map.clear();
+
+    assert.equal(map.has(new Set()), false);
+    map.set(new Set(), 7);
+    assert.equal(map.get(new Set()), 7);
+    assert.equal(map.size, 1);
+  });
+
+  test("the empty set should not be confused with other keys", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(new Set(["a"]), "a");
+    assert.equal(map.has(new Set()), false);
+
+    map.set(new Set(), "empty");
+    assert.equal(map.get(new Set(["a"])), "a");
+    assert.equal(map.get(new Set()), "empty");
+    assert.equal(map.size, 2);
+  });
+
+  test("iterators should include the empty set", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(new Set(), "empty");
+    map.set(new Set(["a"]), "a");
+
+    const keys = Array.from(map.keys());
+    assert.equal(keys.length, 2);
+    assert.ok(keys.some((key) => key.size === 0));
+    assert.deepEqual(Array.from(map.values()).sort(), ["a", "empty"]);
+    assert.equal(Array.from(map.entries()).length, 2);
+  });
+
+  test("array-like methods should include the empty set", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(new Set(), 0);
+    map.set(new Set(["a"]), 1);
+
+    assert.equal(map.includes(0), true);
+    assert.deepEqual(map.find((value) => value === 0)?.[0], new Set());
+    assert.equal(
+      map.reduce((sum, _value, key) => sum + key.size, 0),
+      1,
+    );
+
+    const filtered = map.filter((_value, key) => key.size === 0);
+    assert.equal(filtered.size, 1);
+    assert.equal(filtered.get(new Set()), 0);
+
+    const mapped = map.mapOver((value) => value + 10);
+    assert.equal(mapped.get(new Set()), 10);
+    assert.equal(mapped.get(new Set(["a"])), 11);
+  });
+
+  test("the empty set should be a subset of every set", () => {
+    const map = new SetKeyedMap<string, string>();
+    map.set(new Set(), "empty");
+    map.set(new Set(["a"]), "a");
+
+    const subsets = Array.from(map.subsetsOf(new Set(["b"])));
+    assert.deepEqual(subsets, [[new Set(), "empty"]]);
+    assert.equal(Array.from(map.intersecting(new Set(["a"]))).length, 1);
+  });
+});
@@ -0,0 +1,138 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { SetKeyedMap } from "../../index.ts";
+
+/** Deterministic pseudo-random integers, so failures can be reproduced. */
+function createRandom(seed: number) {
+  return (max: number) => {
+    seed = (Math.imul(seed, 1103515245) + 12345) & 0x7fffffff;
+    return seed % max;
+  };
+}
+
+function createRandomKey(random: (max: number) => number): Set<number> {
+  const key = new Set<number>();
+  const size = random(4);
+  while (key.size < size) {
+    key.add(random(12));
+  }
+  return key;
+}
+
+/** Asserts the subkey index lists exactly the keys in the map. */
+function assertIndexConsistent(map: SetKeyedMap<number, number>) {
+  const expected = new Map<number, number>();
+  for (const key of map.keys()) {
+    for (const subkey of key) {
+      expected.set(subkey, (expected.get(subkey) ?? 0) + 1);
+    }
+  }
+
+  const subkeyToKeys = map["subkeyToKeys"];
+  assert.equal(subkeyToKeys.size, expected.size);
+  for (const [subkey, count] of expected) {
+    assert.equal(subkeyToKeys.get(subkey)?.size, count);
+  }
+  assert.equal(map["subkeyHashes"].size, expected.size);
+}
+
+describe("Bug: delete() Rebuilt the Key List of Every Subkey", () => {
+  test(
+    "deleting keys that share a popular subkey should be fast",
+    {
+      timeout: 10_000,
+    },
+    () => {
+      const map = new SetKeyedMap<number, number>();
+      const count = 50_000;
+      for (let i = 0; i < count; i++) {
+        map.set(new Set([-1, i]), i);
+      }
+
+      for (let i = 0; i < count; i++) {
+        assert.equal(map.delete(new Set([i, -1])), true);
+      }
+
+      assert.equal(map.size, 0);
+      assertIndexConsistent(map);
+    },
+  );
+
+  test("index should stay consistent through set/delete churn", () => {
+    const random = createRandom(42);
+    const map = new SetKeyedMap<number, number>();
+    const model = new Map<string, number>();
+    const modelKey = (key: Set<number>) =>
+      JSON.stringify(Array.from(key).sort((a, b) => a - b));
+
+    for (let i = 0; i < 5_000; i++) {
+      const key = createRandomKey(random);
+      if (random(3)) {
+        map.set(key, i);
+        model.set(modelKey(key), i);
+      } else {
+        assert.equal(map.delete(key), model.delete(modelKey(key)));
+      }
+    }
+
+    assert.equal(map.size, model.size);
+    for (const [key, value] of map) {
+      assert.equal(model.get(modelKey(key)), value);
+    }
+    assertIndexConsistent(map);
+  });
+
+  test("index should be empty after every key is deleted", () => {
+    const random = createRandom(7);
+    const map = new SetKeyedMap<number, number>();
+    for (let i = 0; i < 1_000; i++) {
+      map.set(createRandomKey(random), i);
+    }
+
+    for (const key of Array.from(map.keys())) {
+      assert.equal(map.delete(key), true);
+    }
+
+    assert.equal(map.size, 0);
+    assertIndexConsistent(map);
+    assert.equal(map["hashToKeys"].size, 0);
+  });
+
+  test("index should be rebuilt correctly after clear()", () => {
+    const random = createRandom(3);
+    const map = new SetKeyedMap<number, number>();
+    for (let i = 0; i < 1_000; i++) {
+      map.set(createRandomKey(random), i);
+    }
+
+    map.clear();
+    assertIndexConsistent(map);
+    assert.equal(map["hashToKeys"].size, 0);
+
+    for (let i = 0; i < 1_000; i++) {
+      const key = createRandomKey(random);
+      map.set(key, i);
+      if (i % 2) {
+        map.delete(new Set(Array.from(key).reverse()));
+      }
+    }
+    assertIndexConsistent(map);
+  });
+
+  test("queries should reflect churn", () => {
+    const map = new SetKeyedMap<number, number>();
+    for (let i = 0; i < 100; i++) {
+      map.set(new Set([-1, i]), i);
+    }
+    for (let i = 0; i < 100; i += 2) {
+      map.delete(new Set([-1, i]));
+    }
+
+    assert.equal(Array.from(map.supersetsOf([-1])).length, 50);
+    assert.equal(Array.from(map.intersecting([2, 3, 4, 5])).length, 2);
+    assert.deepEqual(
+      Array.from(map.subsetsOf([-1, 1, 2]), ([, value]) => value),
+      [1],
+    );
+  });
+});
@@ -0,0 +1,153 @@
+import { test, describe, mock } from "node:test";
+import { strict as assert } from "node:assert";
+import { SetKeyedSet } from "../index.ts";
+
+function sorted(set: Iterable<Set<string>>): string[] {
+  return Array.from(set, (member) => Array.from(member).sort().join("")).sort();
+}
+
+describe("SetKeyedSet - Basic Set functionality", () => {
+  test("should add and find equivalent members", () => {
+    const set = new SetKeyedSet<string>();
+    set.add(new Set(["a", "b"]));
+
+    assert.equal(set.has(new Set(["b", "a"])), true);
+    assert.equal(set.has(["a", "b"]), true);
+    assert.equal(set.has(["a"]), false);
+    assert.equal(set.size, 1);
+  });
+
+  test("should deduplicate equivalent members", () => {
+    const set = new SetKeyedSet<string>();
+    set
+      .add(new Set(["a", "b"]))
+      .add(["b", "a"])
+      .add(["a", "a", "b"]);
+    set.add([]).add(new Set());
+
+    assert.equal(set.size, 2);
+  });
+
+  test("should delete and clear", () => {
+    const set = new SetKeyedSet<string>([["a"], ["b", "c"]]);
+
+    assert.equal(set.delete(["c", "b"]), true);
+    assert.equal(set.delete(["c", "b"]), false);
+    assert.equal(set.size, 1);
+
+    set.clear();
+    assert.equal(set.size, 0);
+    assert.equal(set.has(["a"]), false);
+  });
+
+  test("should iterate members", () => {
+    const set = new SetKeyedSet<string>([["a"], ["b", "c"]]);
+
+    assert.deepEqual(Array.from(set), [new Set(["a"]), new Set(["b", "c"])]);
+    assert.deepEqual(Array.from(set.keys()), Array.from(set.values()));
+    assert.deepEqual(Array.from(set.entries()), [
+      [new Set(["a"]), new Set(["a"])],
+      [new Set(["b", "c"]), new Set(["b", "c"])],
+    ]);
+
+    const visited: Set<string>[] = [];
+    set.forEach((value, value2, s) => {
+      assert.equal(value, value2);
+      assert.equal(s, set);
+      visited.push(value);
+    });
+    assert.equal(visited.length, 2);
+  });
+
+  test("iterated members should be copies", () => {
+    const set = new SetKeyedSet<string>([["a"]]);
+    const [member] = set;
+    member.add("b");
+
+    assert.equal(set.has(["a"]), true);
+    assert.equal(set.has(["a", "b"]), false);
+  });
+
+  test("should identify elements with the element key", () => {
+    const set = new SetKeyedSet<{ id: number }>([[{ id: 1 }, { id: 2 }]], {
+      elementKey: (element) => element.id,
+    });
+
+    assert.equal(set.has([{ id: 2 }, { id: 1 }]), true);
+    assert.equal(set.union([[{ id: 1 }, { id: 2 }]]).size, 1);
+  });
+});
+
+describe("SetKeyedSet - Set algebra", () => {
+  const left = () => new SetKeyedSet<string>([["a"], ["a", "b"], ["c"]]);
+  const right = () => new SetKeyedSet<string>([["b", "a"], ["c"], ["d"]]);
+
+  test("should compute the union", () => {
+    const union = left().union(right());
+
+    assert.ok(union instanceof SetKeyedSet);
+    assert.deepEqual(sorted(union), ["a", "ab", "c", "d"]);
+  });
+
+  test("should compute the intersection", () => {
+    assert.deepEqual(sorted(left().intersection(right())), ["ab", "c"]);
+  });
+
+  test("should compute the difference", () => {
+    assert.deepEqual(sorted(left().difference(right())), ["a"]);
+    assert.deepEqual(sorted(right().difference(left())), ["d"]);
+  });
+
+  test("should compute the symmetric difference", () => {
+    assert.deepEqual(sorted(left().symmetricDifference(right())), ["a", "d"]);
+  });
+
+  test("should compare subsets, supersets and disjoint sets", () => {
+    const small = new SetKeyedSet<string>([["b", "a"]]);
+
+    assert.equal(small.isSubsetOf(left()), true);
+    assert.equal(left().isSubsetOf(small), false);
+    assert.equal(left().isSupersetOf(small), true);
+    assert.equal(small.isSupersetOf(left()), false);
+    assert.equal(small.isDisjointFrom(new SetKeyedSet([["a"], ["d"]])), true);
+    assert.equal(small.isDisjointFrom(right()), false);
+  });
+
+  test("should compare by content with other collections of sets", () => {
+    const native = new Set([new Set(["b", "a"]), new Set(["d"])]);
+
+    assert.deepEqual(sorted(left().intersection(native)), ["ab"]);
+    assert.deepEqual(sorted(left().difference(native)), ["a", "c"]);
+    assert.deepEqual(sorted(left().symmetricDifference([["c"], ["e"]])), [
+      "a",
+      "ab",
+      "e",
+    ]);
+    assert.equal(new SetKeyedSet([["a", "b"]]).isSubsetOf(native), true);
+    assert.equal(left().isSupersetOf([["b", "a"], ["c"]]), true);
+    assert.equal(left().isDisjointFrom([["d"]]), true);
+  });
+
+  test("should not modify either operand", () => {
+    const a = left();
+    const b = right();
+    a.union(b);
+    a.intersection(b);
+    a.difference(b);
+    a.symmetricDifference(b);
+
+    assert.equal(a.size, 3);
+    assert.equal(b.size, 3);
+  });
+
+  test("should not apply eviction options to set operations", () => {
+    const onEvict = mock.fn();
+    const set = new SetKeyedSet<number>([[1], [2]], { maxSize: 2, onEvict });
+
+    assert.equal(set.isSubsetOf([[1], [2], [3]]), true);
+    assert.equal(set.intersection([[1], [2], [3]]).size, 2);
+    assert.equal(set.union([[3], [4]]).size, 4);
+    assert.equal(set.symmetricDifference([[3], [4]]).size, 4);
+    assert.equal(onEvict.mock.callCount(), 0);
+  });
+});
@@ -0,0 +1,155 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { SetKeyedMap, snapshotCodecs } from "../index.ts";
+
+const stringNumberCodecs = {
+  element: snapshotCodecs.string,
+  value: snapshotCodecs.number,
+};
+
+function countOccurrences(bytes: Uint8Array, text: string): number {
+  return new TextDecoder("latin1").decode(bytes).split(text).length - 1;
+}
+
+describe("SetKeyedMap - Binary snapshots", () => {
+  test("should round-trip with the default codecs", () => {
+    const map = new SetKeyedMap<string | number, { count: number }>();
+    map.set(["a", 1], { count: 1 });
+    map.set([], { count: 0 });
+    map.set(["b"], { count: 2 });
+
+    const revived = SetKeyedMap.fromSnapshot<
+      string | number,
+      { count: number }
+    >(map.toSnapshot());
+    assert.equal(revived.size, 3);
+    assert.deepEqual(revived.get([1, "a"]), { count: 1 });
+    assert.deepEqual(revived.get([]), { count: 0 });
+    assert.deepEqual(Array.from(revived), Array.from(map));
+  });
+
+  test("should round-trip with custom codecs", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(["α", "β"], 1.5);
+    map.set(["γ"], -Infinity);
+
+    const revived = SetKeyedMap.fromSnapshot(
+      map.toSnapshot(stringNumberCodecs),
+      stringNumberCodecs,
+    );
+    assert.equal(revived.get(["β", "α"]), 1.5);
+    assert.equal(revived.get(["γ"]), -Infinity);
+  });
+
+  test("should encode each distinct element once", () => {
+    const map = new SetKeyedMap<string, number>();
+    for (let i = 0; i < 100; i++) {
+      map.set(["popular-element", `unique-${i}`], i);
+    }
+
+    const snapshot = map.toSnapshot(stringNumberCodecs);
+    assert.equal(countOccurrences(snapshot, "popular-element"), 1);
+    assert.ok(snapshot.length < JSON.stringify(map).length);
+  });
+
+  test("should intern elements by element key", () => {
+    const codecs = {
+      element: {
+        encode: (element: { id: number }) =>
+          snapshotCodecs.number.encode(element.id),
+        decode: (bytes: Uint8Array) => ({
+          id: snapshotCodecs.number.decode(bytes),
+        }),
+      },
+      value: snapshotCodecs.string,
+    };
+    const options = { elementKey: (element: { id: number }) => element.id };
+    const map = new SetKeyedMap<{ id: number }, string>(null, options);
+    map.set([{ id: 1 }, { id: 2 }], "one-two");
+    map.set([{ id: 1 }], "one");
+
+    const snapshot = map.toSnapshot(codecs);
+    const revived = SetKeyedMap.fromSnapshot(snapshot, codecs, options);
+    assert.equal(revived.get([{ id: 2 }, { id: 1 }]), "one-two");
+    assert.equal(revived.get([{ id: 1 }]), "one");
+    // Header, two elements of 9 bytes, and two entries
+    assert.equal(snapshot.length, 4 + 1 + 2 * 9 + 1 + (3 + 8) + (2 + 4));
+  });
+
+  test("should write a versioned header", () => {
+    const snapshot = new SetKeyedMap<string, number>().toSnapshot();
+
+    assert.deepEqual(Array.from(snapshot), [0x53, 0x4b, 0x4d, 1, 0, 0]);
+  });
+
+  test("should read version 1 snapshots", () => {
+    const snapshot = new Uint8Array([
+      // Header
+      0x53, 0x4b, 0x4d, 1,
+      // Two elements: "a" and "b"
+      2, 1, 0x61, 1, 0x62,
+      // One entry: elements 1 and 0, with the value 42
+      1, 2, 1, 0, 8, 0x40, 0x45, 0, 0, 0, 0, 0, 0,
+    ]);
+
+    const map = SetKeyedMap.fromSnapshot(snapshot, stringNumberCodecs);
+    assert.equal(map.size, 1);
+    assert.equal(map.get(["a", "b"]), 42);
+  });
+
+  test("should round-trip large counts and values", () => {
+    const map = new SetKeyedMap<number, string>();
+    for (let i = 0; i < 300; i++) {
+      map.set([i, i + 1], "x".repeat(i));
+    }
+
+    const revived = SetKeyedMap.fromSnapshot(map.toSnapshot(), undefined);
+    assert.equal(revived.size, 300);
+    assert.equal(revived.get([299, 300]), "x".repeat(299));
+  });
+
+  test("should round-trip undefined values", () => {
+    const map = new SetKeyedMap<string, number | undefined>([
+      [["a"], undefined],
+      [["b"], 0],
+    ]);
+
+    const revived = SetKeyedMap.fromSnapshot(map.toSnapshot());
+    assert.deepEqual(Array.from(revived), [
+      [new Set(["a"]), undefined],
+      [new Set(["b"]), 0],
+    ]);
+    assert.equal(revived.has(["a"]), true);
+  });
+
+  test("should reject invalid snapshots", () => {
+    const valid = new SetKeyedMap<string, number>([[["a"], 1]]).toSnapshot();
+
+    assert.throws(
+      () => SetKeyedMap.fromSnapshot(new Uint8Array([1, 2, 3, 1])),
+      TypeError,
+    );
+    assert.throws(
+      () => SetKeyedMap.fromSnapshot(new Uint8Array([0x53, 0x4b, 0x4d, 99])),
+      /version 99 is not supported/,
+    );
+    assert.throws(
+      () => SetKeyedMap.fromSnapshot(valid.subarray(0, valid.length - 1)),
+      RangeError,
+    );
+    assert.throws(
+      () =>
+        SetKeyedMap.fromSnapshot(
+          new Uint8Array([0x53, 0x4b, 0x4d, 1, 0, 1, 1, 5, 1, 0x30]),
+        ),
+      /no element 5/,
+    );
+  });
+
+  test("snapshots should survive structured cloning", () => {
+    const map = new SetKeyedMap<string, number>([[["a", "b"], 1]]);
+
+    const cloned = structuredClone(map.toSnapshot());
+    assert.equal(SetKeyedMap.fromSnapshot(cloned).get(["b", "a"]), 1);
+  });
+});
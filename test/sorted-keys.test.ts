@@ -0,0 +1,124 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { SetKeyedMap } from "../index.ts";
+
+const byString = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+describe("SetKeyedMap - Deterministic key order", () => {
+  test("should store keys with sorted elements", () => {
+    const map = new SetKeyedMap<string, number>(null, {
+      compareElements: byString,
+    });
+    map.set(["c", "a", "b"], 1);
+
+    assert.deepEqual(Array.from(Array.from(map.keys())[0]), ["a", "b", "c"]);
+    assert.deepEqual(Array.from(Array.from(map.entries())[0][0]), [
+      "a",
+      "b",
+      "c",
+    ]);
+    assert.deepEqual(Array.from(Array.from(map.readonlyKeys())[0]), [
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+
+  test("should keep insertion order of elements without a comparison", () => {
+    const map = new SetKeyedMap<string, number>();
+    map.set(["c", "a", "b"], 1);
+
+    assert.deepEqual(Array.from(Array.from(map.keys())[0]), ["c", "a", "b"]);
+  });
+
+  test("should serialize the same regardless of insertion order", () => {
+    const options = { compareElements: (a: number, b: number) => a - b };
+    const first = new SetKeyedMap<number, string>(null, options);
+    first.set([3, 1, 2], "x");
+    const second = new SetKeyedMap<number, string>(null, options);
+    second.set([2, 3, 1], "x");
+
+    assert.equal(JSON.stringify(first), JSON.stringify(second));
+    assert.equal(JSON.stringify(first), '[[[1,2,3],"x"]]');
+    assert.deepEqual(first.toSnapshot(), second.toSnapshot());
+  });
+
+  test("should iterate entries in sorted key order", () => {
+    const map = new SetKeyedMap<string, number>(null, {
+      compareElements: byString,
+    });
+    map.set(["b"], 1);
+    map.set(["c", "a"], 2);
+    map.set(["a"], 3);
+    map.set([], 4);
+    map.set(["b", "a"], 5);
+
+    assert.deepEqual(
+      Array.from(map.sortedEntries(), ([key, value]) => [
+        Array.from(key).join(""),
+        value,
+      ]),
+      [
+        ["", 4],
+        ["a", 3],
+        ["ab", 5],
+        ["ac", 2],
+        ["b", 1],
+      ],
+    );
+  });
+
+  test("should sort entries with a given comparison", () => {
+    const map = new SetKeyedMap<number, string>();
+    map.set([10, 2], "ten-two");
+    map.set([1, 3], "one-three");
+    map.set([2], "two");
+
+    assert.deepEqual(
+      Array.from(
+        map.sortedEntries((a, b) => a - b),
+        ([, value]) => value,
+      ),
+      ["one-three", "two", "ten-two"],
+    );
+    assert.deepEqual(
+      Array.from(
+        map.sortedEntries((a, b) => b - a),
+        ([, value]) => value,
+      ),
+      ["ten-two", "one-three", "two"],
+    );
+  });
+
+  test("should require a comparison to sort entries", () => {
+    const map = new SetKeyedMap<number, string>([[[1], "one"]]);
+
+    assert.throws(() => Array.from(map.sortedEntries()), TypeError);
+  });
+
+  test("lookups should be unaffected by element order", () => {
+    const map = new SetKeyedMap<string, number>(null, {
+      compareElements: byString,
+    });
+    map.set(["c", "a", "b"], 1);
+    map.set(["b", "c", "a"], 2);
+
+    assert.equal(map.size, 1);
+    assert.equal(map.get(new Set(["b", "a", "c"])), 2);
+    assert.equal(map.delete(["a", "c", "b"]), true);
+  });
+
+  test("derived maps should keep sorting", () => {
+    const map = new SetKeyedMap<string, number>(null, {
+      compareElements: byString,
+    });
+    map.set(["b", "a"], 1);
+
+    const filtered = map.filter(() => true);
+    filtered.set(["d", "c"], 2);
+    assert.deepEqual(filtered.toJSON(), [
+      [["a", "b"], 1],
+      [["c", "d"], 2],
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+import { test, describe, mock } from "node:test";
+import { strict as assert } from "node:assert";
+import { SetKeyedMap } from "../index.ts";
+
+describe("SetKeyedMap - Upsert", () => {
+  test("getOrInsert() should insert the default if missing", () => {
+    const map = new SetKeyedMap<string, number[]>();
+
+    const first = map.getOrInsert(["a", "b"], []);
+    first.push(1);
+    map.getOrInsert(["b", "a"], []).push(2);
+
+    assert.equal(map.size, 1);
+    assert.deepEqual(map.get(["a", "b"]), [1, 2]);
+  });
+
+  test("getOrInsert() should not replace an existing value", () => {
+    const map = new SetKeyedMap<string, number>([[["a"], 1]]);
+
+    assert.equal(map.getOrInsert(["a"], 2), 1);
+    assert.equal(map.get(["a"]), 1);
+  });
+
+  test("getOrInsertComputed() should only compute missing values", () => {
+    const map = new SetKeyedMap<string, number>([[["a"], 1]]);
+    const callback = mock.fn((key: Set<string>) => key.size * 10);
+
+    assert.equal(map.getOrInsertComputed(["a"], callback), 1);
+    assert.equal(map.getOrInsertComputed(["b", "c"], callback), 20);
+    assert.equal(map.get(["c", "b"]), 20);
+    assert.equal(callback.mock.callCount(), 1);
+    assert.deepEqual(callback.mock.calls[0].arguments[0], new Set(["b", "c"]));
+  });
+
+  test("update() should transform the current value", () => {
+    const map = new SetKeyedMap<string, number>();
+    const increment = (count = 0) => count + 1;
+
+    assert.equal(map.update(["a", "b"], increment), 1);
+    assert.equal(map.update(["b", "a"], increment), 2);
+    assert.equal(map.update(["a"], increment), 1);
+    assert.deepEqual(Array.from(map.values()), [2, 1]);
+  });
+
+  test("update() should pass a copy of the key", () => {
+    const map = new SetKeyedMap<string, number>([[["a"], 1]]);
+
+    map.update(["a"], (value, key) => {
+      key.add("b");
+      return (value ?? 0) + key.size;
+    });
+    assert.equal(map.get(["a"]), 3);
+    assert.equal(map.has(["a", "b"]), false);
+  });
+
+  test("should look up the key only once", () => {
+    const map = new SetKeyedMap<string, number>([[["a"], 1]]);
+    const getCannonicalKey = mock.method(
+      map as unknown as { getCannonicalKey(key: Iterable<string>): unknown },
+      "getCannonicalKey",
+    );
+
+    map.update(["a"], (count = 0) => count + 1);
+    map.update(["b"], (count = 0) => count + 1);
+    map.getOrInsert(["c"], 0);
+    assert.equal(getCannonicalKey.mock.callCount(), 3);
+  });
+
+  test("callbacks that change keys should not corrupt the map", () => {
+    const map = new SetKeyedMap<string, number>();
+
+    const value = map.getOrInsertComputed(["a"], () => {
+      map.set(["a"], 1);
+      return 2;
+    });
+    assert.equal(value, 2);
+    assert.equal(map.size, 1);
+    assert.equal(map.get(["a"]), 2);
+
+    map.update(["a"], () => {
+      map.delete(["a"]);
+      return 3;
+    });
+    assert.equal(map.size, 1);
+    assert.equal(map.get(["a"]), 3);
+    assert.equal(map["subkeyToKeys"].get("a")?.size, 1);
+  });
+
+  test("should fire set and update events", () => {
+    const map = new SetKeyedMap<string, number>();
+    const types: string[] = [];
+    map.subscribe((events) => types.push(...events.map(({ type }) => type)));
+
+    map.getOrInsert(["a"], 1);
+    map.getOrInsert(["a"], 2);
+    map.update(["a"], (value = 0) => value + 1);
+
+    assert.deepEqual(types, ["set", "update"]);
+  });
+
+  test("should count as uses and respect maxSize", () => {
+    const map = new SetKeyedMap<string, number>(null, { maxSize: 2 });
+    map.set(["a"], 1);
+    map.set(["b"], 2);
+    map.getOrInsert(["a"], 0);
+    map.update(["c"], () => 3);
+
+    assert.deepEqual(Array.from(map.values()), [1, 3]);
+  });
+});
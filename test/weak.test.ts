@@ -0,0 +1,126 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { setImmediate } from "node:timers/promises";
+import { SetKeyedMap, type EvictionReason } from "../index.ts";
+
+const gc = globalThis.gc;
+const skip = !gc && "garbage collection must be exposed with --expose-gc";
+
+/** Collects garbage until the condition holds, as finalizers run some time after. */
+async function collectUntil(condition: () => boolean) {
+  for (let attempt = 0; attempt < 20 && !condition(); attempt++) {
+    gc?.();
+    await setImmediate();
+  }
+  assert.ok(condition(), "garbage was not collected");
+}
+
+/** Sets an entry whose key has an object that nothing else refers to. */
+function setWithTemporaryObject(
+  map: SetKeyedMap<object | string, number>,
+  value: number,
+) {
+  map.set([{ id: value }, "shared"], value);
+}
+
+describe("SetKeyedMap - Weak mode", () => {
+  test("should find keys with object elements", () => {
+    const map = new SetKeyedMap<object | string, number>(null, { weak: true });
+    const element = { id: 1 };
+    map.set([element, "a"], 1);
+
+    assert.equal(map.get(["a", element]), 1);
+    assert.equal(map.has([{ id: 1 }, "a"]), false);
+    assert.deepEqual(Array.from(map.keys()), [new Set([element, "a"])]);
+    assert.equal(Array.from(map.keys())[0].has(element), true);
+    assert.deepEqual(Array.from(map.supersetsOf([element])), [
+      [new Set([element, "a"]), 1],
+    ]);
+    assert.deepEqual(map.toJSON(), [[[element, "a"], 1]]);
+  });
+
+  test("should delete keys with object elements", () => {
+    const map = new SetKeyedMap<object | string, number>(null, { weak: true });
+    const element = { id: 1 };
+    map.set([element], 1);
+    map.set([element, "a"], 2);
+
+    assert.equal(map.delete([element]), true);
+    assert.equal(map.deleteContaining(element), 1);
+    assert.equal(map.size, 0);
+    assert.equal(map["subkeyToKeys"].size, 0);
+  });
+
+  test(
+    "should evict entries once an object element is collected",
+    { skip },
+    async () => {
+      const evicted: [Set<object | string>, number, EvictionReason][] = [];
+      const map = new SetKeyedMap<object | string, number>(null, {
+        weak: true,
+        onEvict: (key, value, reason) => evicted.push([key, value, reason]),
+      });
+      const kept = { id: 0 };
+      map.set([kept, "shared"], 0);
+      map.set(["shared"], -1);
+      for (let i = 1; i <= 10; i++) {
+        setWithTemporaryObject(map, i);
+      }
+      assert.equal(map.size, 12);
+
+      await collectUntil(() => map.size === 2);
+
+      assert.deepEqual(Array.from(map.values()), [0, -1]);
+      assert.equal(map.get([kept, "shared"]), 0);
+      assert.equal(map["subkeyToKeys"].get("shared")?.size, 2);
+      assert.equal(map["subkeyToKeys"].size, 2);
+      assert.equal(map["subkeyHashes"].size, 2);
+      assert.equal(evicted.length, 10);
+      for (const [key, , reason] of evicted) {
+        assert.deepEqual(key, new Set(["shared"]));
+        assert.equal(reason, "collected");
+      }
+    },
+  );
+
+  test(
+    "deleted entries should not be evicted when collected",
+    { skip },
+    async () => {
+      const evicted: number[] = [];
+      const map = new SetKeyedMap<object | string, number>(null, {
+        weak: true,
+        onEvict: (_key, value) => evicted.push(value),
+      });
+      setWithTemporaryObject(map, 1);
+      map.clear();
+      setWithTemporaryObject(map, 2);
+      map.deleteContaining("shared");
+      setWithTemporaryObject(map, 3);
+
+      await collectUntil(() => map.size === 0);
+      assert.deepEqual(evicted, [3]);
+    },
+  );
+
+  test("should hold primitive elements as usual", () => {
+    const map = new SetKeyedMap<string, number>(null, { weak: true });
+    map.set(["a", "b"], 1);
+
+    assert.equal(map.get(["b", "a"]), 1);
+    assert.deepEqual(
+      Array.from(map.readonlyKeys(), (key) => Array.from(key)),
+      [["a", "b"]],
+    );
+  });
+
+  test("should pass weak mode to derived maps", () => {
+    const map = new SetKeyedMap<object, number>(null, { weak: true });
+    const element = {};
+    map.set([element], 1);
+
+    const mapped = map.mapOver((value) => value + 1);
+    assert.equal(mapped["options"].weak, true);
+    assert.equal(mapped.get([element]), 2);
+  });
+});